@@ -0,0 +1,219 @@
+/// <reference types="node" />
+// Command line front end of lib.ts: sorts a text, CSV/TSV or JSON/JSONL file and
+// writes the order with similarity scores. Build with `npm run build:cli`.
+import { readFile, writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import {
+    semanticSort, parseInput, parseStructured, formatFromFileName, guessTextColumns, rowText,
+    rowsToCsv, rowsToJson, rowsToMarkdown, outlineToMarkdown, defaultProjectionSettings, defaultSolverSettings, noGrouping,
+    DEFAULT_MODEL, LARGE_LIST_SIZE, MODEL_PRESETS, type DistanceMetric, type ModelDtype, type Pooling, type Grouping, type ExportRow, type ProjectionSettings
+} from './lib';
+
+const USAGE = `Usage: semantic-sorter <input> [options]
+
+Sorts the lines of <input> (a text file, CSV, TSV, JSON or JSONL; - for stdin)
+into a semantically coherent order.
+
+Output
+  -o, --output <file>     write to a file instead of stdout
+  -f, --format <fmt>      csv | json | md | outline | txt (default: from the output
+                          file extension, else csv)
+
+Input
+  --column <name>         text column of tabular input, repeat to concatenate
+                          several (default: guessed); other columns are kept
+  --dedupe                drop exact duplicate lines
+
+Model
+  --model <id>            embedding model (default: ${DEFAULT_MODEL});
+                          presets that bring their own prompts and pooling:
+${MODEL_PRESETS.map(p => `                            ${p.settings.modelName}`).join('\n')}
+  --model-path <dir>      directory with local models, <dir>/<id>/onnx/model.onnx
+  --cache-dir <dir>       where downloaded models are stored
+  --offline               never download, use local files only
+  --dtype <type>          model precision: fp32 | fp16 | q8 (default: fp32)
+  --pooling <p>           mean | cls | last_token (default: from the model preset,
+                          else mean)
+  --query-prompt <t>      template for --query, {text} marks the input
+  --document-prompt <t>   template for every line (default: from the preset)
+  --batch-size <n>        texts per embedding batch (default: 32)
+
+Sorting
+  --metric <m>            cosine | angular | euclidean | dot (default: cosine)
+  --sections <k>          split into k sections
+  --max-section <n>       split into sections of at most n items
+  --query <text>          order relative to a free-text query
+  --query-mode <mode>     closest | depot (default: closest)
+  --round-trip            close the tour back to the first item
+  --time <s>              solver time limit in seconds, 0 = none (default: 5)
+  --generations <n>       solver generation limit, 0 = none (default: 1000)
+  --seed <n>              solver seed; with --time 0 the order is reproducible
+  --solver <path>         auto | vrp | heuristic (default: auto, heuristic above
+                          ${LARGE_LIST_SIZE} items)
+  --polish-window <n>     heuristic path: re-solve windows of n items with the
+                          VRP solver (default: 0, off)
+  --project <method>      add map coordinates: umap | pca
+
+  -q, --quiet             no progress on stderr
+  -h, --help              show this help
+`;
+
+const FORMATS = ['csv', 'json', 'md', 'outline', 'txt'];
+
+// Flags that take no value
+const SWITCHES = new Set(['offline', 'dedupe', 'round-trip', 'quiet', 'help']);
+const ALIASES: Record<string, string> = { o: 'output', f: 'format', q: 'quiet', h: 'help' };
+
+function parseArgs(argv: string[]) {
+    const positional: string[] = [];
+    const flags = new Map<string, string[]>();
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '-' || !arg.startsWith('-')) {
+            positional.push(arg);
+            continue;
+        }
+        let name = arg.replace(/^--?/, '');
+        let value: string | undefined;
+        if (name.includes('=')) [name, value] = [name.slice(0, name.indexOf('=')), name.slice(name.indexOf('=') + 1)];
+        name = ALIASES[name] ?? name;
+        if (SWITCHES.has(name)) {
+            value = 'true';
+        } else if (value === undefined) {
+            value = argv[++i];
+            if (value === undefined) throw new Error(`--${name} needs a value`);
+        }
+        flags.set(name, [...(flags.get(name) ?? []), value]);
+    }
+    return { positional, flag: (name: string) => flags.get(name)?.at(-1), all: (name: string) => flags.get(name) ?? [] };
+}
+
+const number = (value: string | undefined, name: string) => {
+    if (value === undefined) return undefined;
+    const v = Number(value);
+    if (!Number.isFinite(v) || v < 0) throw new Error(`--${name} expects a non-negative number, got "${value}"`);
+    return v;
+};
+
+async function readInput(path: string) {
+    if (path !== '-') return readFile(path, 'utf8');
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks).toString('utf8');
+}
+
+function formatRows(rows: ExportRow[], format: string) {
+    if (format === 'csv') return rowsToCsv(rows) + '\n';
+    if (format === 'json') return rowsToJson(rows) + '\n';
+    if (format === 'md') return rowsToMarkdown(rows);
+    if (format === 'outline') return outlineToMarkdown(rows, true);
+    return rows.map(r => r.text).join('\n') + '\n';
+}
+
+async function main() {
+    const args = parseArgs(process.argv.slice(2));
+    if (args.flag('help') || args.positional.length !== 1) {
+        process.stdout.write(USAGE);
+        process.exitCode = args.flag('help') ? 0 : 1;
+        return;
+    }
+    const [inputPath] = args.positional;
+    const output = args.flag('output');
+    const extension = output?.split('.').pop()?.toLowerCase() ?? '';
+    const format = args.flag('format') ?? (FORMATS.includes(extension) ? extension : 'csv');
+    if (!FORMATS.includes(format)) throw new Error(`Unknown format "${format}"`);
+    const log = args.flag('quiet') ? () => {} : (message: string) => process.stderr.write(`${message}\n`);
+
+    // Tabular input: the chosen columns are embedded, all others travel with each row
+    const text = await readInput(inputPath);
+    const structuredFormat = inputPath === '-' ? null : formatFromFileName(inputPath);
+    let lines: string[];
+    let columns: { fields: string[]; extra: string[]; rows: Record<string, string>[] } | null = null;
+    if (structuredFormat) {
+        const data = parseStructured(text, structuredFormat);
+        if (!data) throw new Error(`No rows found in ${inputPath}`);
+        const fields = args.all('column').length ? args.all('column') : guessTextColumns(data);
+        const missing = fields.filter(f => !data.columns.includes(f));
+        if (missing.length) throw new Error(`Unknown column(s): ${missing.join(', ')} (available: ${data.columns.join(', ')})`);
+        columns = { fields, extra: data.columns.filter(c => !fields.includes(c)), rows: data.rows };
+        lines = data.rows.map(r => rowText(r, fields));
+    } else {
+        lines = text.split('\n');
+    }
+
+    const { entities, sources, constraints, errors } = parseInput(lines, Boolean(args.flag('dedupe')));
+    if (errors.length) throw new Error(errors.join(', '));
+    if (entities.length < 2) throw new Error('Need at least two lines to sort');
+
+    let grouping: Grouping = noGrouping();
+    const sections = number(args.flag('sections'), 'sections');
+    const maxSection = number(args.flag('max-section'), 'max-section');
+    if (sections) grouping = { ...grouping, mode: 'count', count: Math.round(sections) };
+    else if (maxSection) grouping = { ...grouping, mode: 'capacity', maxSize: Math.round(maxSection) };
+    if (grouping.mode !== 'none' && (constraints.start !== null || constraints.end !== null || constraints.pinned.length > 0)) {
+        throw new Error('@start/@end/@N markers are not supported when grouping into sections');
+    }
+    if (args.flag('round-trip') && constraints.end !== null) throw new Error('@end cannot be combined with a round trip');
+
+    const metric = (args.flag('metric') ?? 'cosine') as DistanceMetric;
+    if (!['cosine', 'angular', 'euclidean', 'dot'].includes(metric)) throw new Error(`Unknown metric "${metric}"`);
+    const queryMode = args.flag('query-mode') ?? 'closest';
+    if (queryMode !== 'closest' && queryMode !== 'depot') throw new Error(`Unknown query mode "${queryMode}"`);
+    const method = args.flag('project');
+    if (method !== undefined && method !== 'umap' && method !== 'pca') throw new Error(`Unknown projection "${method}"`);
+    const dtype = args.flag('dtype');
+    if (dtype !== undefined && !['fp32', 'fp16', 'q8'].includes(dtype)) throw new Error(`Unknown dtype "${dtype}"`);
+    const pooling = args.flag('pooling');
+    if (pooling !== undefined && !['mean', 'cls', 'last_token'].includes(pooling)) throw new Error(`Unknown pooling "${pooling}"`);
+    const seed = number(args.flag('seed'), 'seed');
+    const solverPath = args.flag('solver') ?? 'auto';
+    if (solverPath !== 'auto' && solverPath !== 'vrp' && solverPath !== 'heuristic') throw new Error(`Unknown solver path "${solverPath}"`);
+    const solverDefaults = defaultSolverSettings();
+    const projection: ProjectionSettings | null = method ? { ...defaultProjectionSettings(), method, seed: seed ?? null } : null;
+
+    // The bundled module would fetch its wasm over HTTP; in Node it is read from disk
+    const wasm = await readFile(fileURLToPath(new URL('./vrp-pkg/vrp_cli_bg.wasm', import.meta.url)));
+
+    const result = await semanticSort(entities, {
+        model: args.flag('model'),
+        localModelPath: args.flag('model-path'),
+        cacheDir: args.flag('cache-dir'),
+        offline: Boolean(args.flag('offline')),
+        device: 'cpu',
+        dtype: dtype as ModelDtype | undefined,
+        pooling: pooling as Pooling | undefined,
+        queryPrompt: args.flag('query-prompt'),
+        documentPrompt: args.flag('document-prompt'),
+        batchSize: number(args.flag('batch-size'), 'batch-size'),
+        metric,
+        constraints,
+        grouping,
+        solver: {
+            maxTime: number(args.flag('time'), 'time') ?? solverDefaults.maxTime,
+            maxGenerations: number(args.flag('generations'), 'generations') ?? solverDefaults.maxGenerations,
+            seed: seed ?? null,
+            closed: Boolean(args.flag('round-trip')),
+            path: solverPath,
+            polishWindow: number(args.flag('polish-window'), 'polish-window') ?? 0
+        },
+        query: args.flag('query') ? { text: args.flag('query')!, mode: queryMode } : null,
+        projection,
+        metadata: columns ? sources.map(src => Object.fromEntries(columns!.extra.map(c => [c, columns!.rows[src]?.[c] ?? '']))) : null,
+        wasm,
+        onStatus: log,
+        onProgress: (done, total) => log(`Embedded ${done}/${total}`)
+    });
+
+    const out = formatRows(result.rows, format);
+    if (output) {
+        await writeFile(output, out);
+        log(`Wrote ${result.rows.length} items to ${output}`);
+    } else {
+        process.stdout.write(out);
+    }
+}
+
+main().catch(e => {
+    process.stderr.write(`Error: ${e instanceof Error ? e.message : String(e)}\n`);
+    process.exitCode = 1;
+});
@@ -0,0 +1,63 @@
+// Comparing the orders that different embedding models produce for the same list,
+// and the averaged distance matrix their combined order is solved on
+
+// Spearman's rank correlation between two orders of the same items. A path read
+// backwards is the same path, so the sign only tells whether one runs the other way.
+export function rankCorrelation(a: number[], b: number[]) {
+    const n = a.length;
+    if (n < 2) return { rho: 1, reversed: false };
+    const rankB = new Map(b.map((idx, rank) => [idx, rank]));
+    let sum = 0;
+    a.forEach((idx, rank) => {
+        const d = rank - (rankB.get(idx) ?? rank);
+        sum += d * d;
+    });
+    const rho = 1 - (6 * sum) / (n * (n * n - 1));
+    return { rho: Math.abs(rho), reversed: rho < 0 };
+}
+
+// Undirected transitions of an order, one `i:j` key (i < j) per consecutive pair
+const transitionKeys = (order: number[]) =>
+    new Set(order.slice(1).map((b, k) => {
+        const a = order[k];
+        return a < b ? `${a}:${b}` : `${b}:${a}`;
+    }));
+
+// Transitions of `order` that appear in none of the `others`, by rank of their first item
+export function uniqueTransitions(order: number[], others: number[][]) {
+    const shared = new Set<string>();
+    others.forEach(o => transitionKeys(o).forEach(k => shared.add(k)));
+    const ranks: number[] = [];
+    order.slice(1).forEach((b, k) => {
+        const a = order[k];
+        if (!shared.has(a < b ? `${a}:${b}` : `${b}:${a}`)) ranks.push(k);
+    });
+    return ranks;
+}
+
+// Share of transitions two orders have in common (Jaccard index of their edge sets)
+export function sharedTransitions(a: number[], b: number[]) {
+    const ka = transitionKeys(a), kb = transitionKeys(b);
+    let common = 0;
+    ka.forEach(k => { if (kb.has(k)) common++; });
+    const union = ka.size + kb.size - common;
+    return union > 0 ? common / union : 1;
+}
+
+// Mean of the matrices after scaling each to the same mean off-diagonal distance (the
+// mean over all models), so a model with a wider spread of distances does not dominate
+// the combined order while the values stay in the metric's range
+export function averageMatrices(matrices: Float32Array[], n: number) {
+    const means = matrices.map(m => {
+        let sum = 0;
+        for (let i = 0; i < n; i++) for (let j = 0; j < n; j++) if (i !== j) sum += m[i * n + j];
+        return n > 1 ? sum / (n * (n - 1)) : 0;
+    });
+    const target = means.reduce((s, v) => s + v, 0) / Math.max(1, means.length);
+    const out = new Float32Array(n * n);
+    matrices.forEach((m, k) => {
+        const scale = (means[k] > 0 ? target / means[k] : 1) / matrices.length;
+        for (let c = 0; c < out.length; c++) out[c] += m[c] * scale;
+    });
+    return out;
+}
@@ -0,0 +1,133 @@
+// Tour constraints parsed from line markers in the input, e.g.
+//   @start Introduction
+//   @end Conclusion
+//   @3 Budget review
+// A leading backslash keeps a line literal: `\@2024 roadmap` is the text "@2024 roadmap".
+// Indices refer to the entity list that is sent to the worker.
+export interface SortConstraints {
+    start: number | null;
+    end: number | null;
+    pinned: { index: number; position: number }[]; // position is 1-based
+}
+
+export interface ParsedInput {
+    entities: string[];
+    sources: number[]; // index into `lines` of the line each entity came from
+    constraints: SortConstraints;
+    errors: string[];
+}
+
+const MARKER_RE = /^@(start|end|\d+)\s+(.+)$/i;
+const ESCAPED_RE = /^\\(?=@)/;
+
+// Text of a line without its marker or escape
+export const stripMarker = (line: string) => {
+    const trimmed = line.trim();
+    const m = trimmed.match(MARKER_RE);
+    return m ? m[2].trim() : trimmed.replace(ESCAPED_RE, '');
+};
+
+export const emptyConstraints = (): SortConstraints => ({ start: null, end: null, pinned: [] });
+
+export function parseInput(lines: string[], deduplicate: boolean): ParsedInput {
+    const entities: string[] = [];
+    const sources: number[] = [];
+    const constraints = emptyConstraints();
+    const errors: string[] = [];
+    const seen = new Map<string, number>();
+
+    lines.forEach((raw, lineIdx) => {
+        const line = raw.trim();
+        if (!line) return;
+        const m = line.match(MARKER_RE);
+        const text = m ? m[2].trim() : line.replace(ESCAPED_RE, '');
+        const marker = m ? m[1].toLowerCase() : null;
+
+        let idx = deduplicate ? seen.get(text) : undefined;
+        if (idx === undefined) {
+            idx = entities.length;
+            entities.push(text);
+            sources.push(lineIdx);
+            seen.set(text, idx);
+        }
+        if (!marker) return;
+
+        if (marker === 'start') {
+            if (constraints.start !== null && constraints.start !== idx) errors.push('multiple @start markers');
+            constraints.start = idx;
+        } else if (marker === 'end') {
+            if (constraints.end !== null && constraints.end !== idx) errors.push('multiple @end markers');
+            constraints.end = idx;
+        } else {
+            const position = parseInt(marker, 10);
+            if (position < 1) {
+                errors.push(`invalid position @${marker}`);
+            } else if (!constraints.pinned.some(p => p.index === idx)) {
+                constraints.pinned.push({ index: idx, position });
+            }
+        }
+    });
+
+    if (constraints.start !== null && constraints.start === constraints.end) {
+        errors.push('same item marked as @start and @end');
+    }
+    // An item with @start/@end is already anchored; drop a redundant position pin
+    constraints.pinned = constraints.pinned.filter(p => p.index !== constraints.start && p.index !== constraints.end);
+    // Most likely text that happens to start with a number, e.g. "@2024 roadmap"
+    constraints.pinned.filter(p => p.position > entities.length).forEach(p => {
+        errors.push(`@${p.position} is beyond the ${entities.length} items (write \\@${p.position} to keep it as text)`);
+    });
+
+    return { entities, sources, constraints, errors };
+}
+
+// Slot of every anchored item in an order of `size`: @start first, @end last, @N at
+// position N (or the nearest free slot if taken). Free slots are null.
+export function anchorSlots(size: number, constraints: SortConstraints): (number | null)[] {
+    const slots: (number | null)[] = new Array(size).fill(null);
+    if (constraints.start !== null) slots[0] = constraints.start;
+    if (constraints.end !== null) slots[size - 1] = constraints.end;
+
+    [...constraints.pinned].sort((a, b) => a.position - b.position).forEach(({ index, position }) => {
+        const target = Math.min(size - 1, position - 1);
+        for (let d = 0; d < size; d++) {
+            const before = target - d, after = target + d;
+            if (after < size && slots[after] === null) { slots[after] = index; return; }
+            if (before >= 0 && slots[before] === null) { slots[before] = index; return; }
+        }
+    });
+    return slots;
+}
+
+// A run of free slots and the anchors around it; null where the run is at an open end
+export interface Leg {
+    from: number | null;
+    to: number | null;
+    size: number;
+}
+
+// The runs of free slots between anchors, in order. Each one is solved as a path from
+// the anchor before it to the anchor after it, so the transitions into and out of every
+// anchored item are part of the optimization. A round trip's last run returns to the first item.
+export function anchorLegs(size: number, constraints: SortConstraints, closed = false): Leg[] {
+    const slots = anchorSlots(size, constraints);
+    const legs: Leg[] = [];
+    let leg: Leg = { from: null, to: null, size: 0 };
+    slots.forEach(slot => {
+        if (slot === null) {
+            leg.size++;
+            return;
+        }
+        legs.push({ ...leg, to: slot });
+        leg = { from: slot, to: null, size: 0 };
+    });
+    legs.push(closed ? { ...leg, to: slots[0] } : leg);
+    return legs.filter(l => l.size > 0);
+}
+
+// Lays out the final order: anchors take their slots and the solved free items, leg by
+// leg, fill the remaining gaps.
+export function applyConstraints(size: number, freeOrder: number[], constraints: SortConstraints): number[] {
+    let k = 0;
+    return anchorSlots(size, constraints).map(s => (s !== null ? s : freeOrder[k++]));
+}
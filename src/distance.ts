@@ -0,0 +1,114 @@
+// Distance metrics on embedding vectors. All metrics assume the vectors are
+// L2-normalized (the pipeline runs with `normalize: true`), so every metric is
+// derived from the plain dot product.
+export type DistanceMetric = 'cosine' | 'angular' | 'euclidean' | 'dot';
+
+// Distance between two items, by index
+export type DistanceFn = (a: number, b: number) => number;
+
+export interface PackedEmbeddings {
+    data: Float32Array;
+    n: number;
+    dim: number;
+}
+
+export function packEmbeddings(embeddings: number[][]): PackedEmbeddings {
+    const n = embeddings.length;
+    const dim = n > 0 ? embeddings[0].length : 0;
+    const data = new Float32Array(n * dim);
+    embeddings.forEach((v, i) => data.set(v, i * dim));
+    return { data, n, dim };
+}
+
+const fromDot: Record<DistanceMetric, (dot: number) => number> = {
+    cosine: dot => Math.max(0, 1 - dot),
+    angular: dot => Math.acos(Math.min(1, Math.max(-1, dot))) / Math.PI,
+    euclidean: dot => Math.sqrt(Math.max(0, 2 - 2 * dot)),
+    // Affine rescale of -dot into [0, 1]. For normalized vectors it ranks pairs exactly
+    // like cosine, only on half the scale
+    dot: dot => (1 - dot) / 2,
+};
+
+// Inverse of `fromDot` mapped onto a similarity scale where 1 means identical
+const toSimilarity: Record<DistanceMetric, (d: number) => number> = {
+    cosine: d => 1 - d,
+    angular: d => 1 - d,
+    euclidean: d => 1 - d / 2,
+    dot: d => 1 - 2 * d,
+};
+
+// Similarity back to the dot product it was derived from
+const toDot: Record<DistanceMetric, (s: number) => number> = {
+    cosine: s => s,
+    angular: s => Math.cos(Math.PI * (1 - s)),
+    euclidean: s => 1 - 2 * (1 - s) ** 2,
+    dot: s => s,
+};
+
+// The same closeness on another metric's similarity scale. Angular and euclidean
+// similarities run lower than cosine for the same pair, so thresholds (written for
+// cosine) have to move with the metric.
+export const convertSimilarity = (s: number, from: DistanceMetric, to: DistanceMetric) =>
+    from === to ? s : toSimilarity[to](fromDot[to](toDot[from](s)));
+
+// Builds the full n×n distance matrix (row-major). Only the upper triangle is
+// computed; the diagonal is always 0.
+export function buildDistanceMatrix(packed: PackedEmbeddings, metric: DistanceMetric = 'cosine') {
+    const { data, n, dim } = packed;
+    const transform = fromDot[metric];
+    const matrix = new Float32Array(n * n);
+    for (let i = 0; i < n; i++) {
+        const offI = i * dim;
+        for (let j = i + 1; j < n; j++) {
+            const offJ = j * dim;
+            let dot = 0;
+            for (let k = 0; k < dim; k++) dot += data[offI + k] * data[offJ + k];
+            const d = transform(dot);
+            matrix[i * n + j] = d;
+            matrix[j * n + i] = d;
+        }
+    }
+    return matrix;
+}
+
+export const matrixDistances = (matrix: Float32Array, n: number): DistanceFn => (a, b) => matrix[a * n + b];
+
+// Distances computed on demand from the vectors, for lists too large to hold every pair
+export function embeddingDistances(packed: PackedEmbeddings, metric: DistanceMetric = 'cosine'): DistanceFn {
+    const { data, dim } = packed;
+    const transform = fromDot[metric];
+    return (a, b) => {
+        if (a === b) return 0;
+        const offA = a * dim, offB = b * dim;
+        let dot = 0;
+        for (let k = 0; k < dim; k++) dot += data[offA + k] * data[offB + k];
+        return transform(dot);
+    };
+}
+
+// Distance of every transition of an order, from one item to the next
+export const transitionDistances = (order: number[], dist: DistanceFn) => order.slice(1).map((b, i) => dist(order[i], b));
+
+// Distances known along an order (see `transitionDistances`); any other pair is left to `rest`
+export function orderDistances(order: number[], transitions: ArrayLike<number>, rest: DistanceFn = () => NaN): DistanceFn {
+    const n = order.length;
+    const key = (a: number, b: number) => (a < b ? a * n + b : b * n + a);
+    const known = new Map<number, number>();
+    order.slice(1).forEach((b, i) => known.set(key(order[i], b), transitions[i]));
+    return (a, b) => (a === b ? 0 : known.get(key(a, b)) ?? rest(a, b));
+}
+
+export const distanceToSimilarity = (d: number, metric: DistanceMetric = 'cosine') => toSimilarity[metric](d);
+
+// Distances from one (normalized) vector to every packed embedding
+export function distancesTo(vector: number[], packed: PackedEmbeddings, metric: DistanceMetric = 'cosine') {
+    const { data, n, dim } = packed;
+    const transform = fromDot[metric];
+    const out = new Float32Array(n);
+    for (let i = 0; i < n; i++) {
+        let dot = 0;
+        for (let k = 0; k < dim; k++) dot += data[i * dim + k] * vector[k];
+        out[i] = transform(dot);
+    }
+    return out;
+}
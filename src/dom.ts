@@ -0,0 +1,12 @@
+// Element construction for views that show user text. Strings always become text
+// nodes, so entity lines, column values and error messages are never parsed as markup.
+export type Child = Node | string | null | undefined | false;
+
+export function h<K extends keyof HTMLElementTagNameMap>(tag: K, className = '', ...children: Child[]): HTMLElementTagNameMap[K] {
+    const el = document.createElement(tag);
+    if (className) el.className = className;
+    children.forEach(child => {
+        if (child) el.append(child);
+    });
+    return el;
+}
@@ -0,0 +1,55 @@
+// Semantic near-duplicates: groups of items whose similarity exceeds a threshold
+import { distanceToSimilarity, type DistanceFn, type DistanceMetric } from './distance';
+import type { KnnGraph } from './heuristic';
+import { medoid } from './sections';
+
+export type DuplicateAction = 'keep' | 'merge' | 'drop';
+
+export interface DuplicateGroup {
+    indices: number[];
+    representative: number; // the member that survives a merge
+}
+
+// Single linkage: paraphrase chains (a≈b, b≈c) end up in one group even if a and c are further apart.
+// Every pair is checked unless a kNN graph is given; then only each item's neighbours are,
+// which is how large lists are checked without an n×n pass.
+export function findNearDuplicates(n: number, dist: DistanceFn, metric: DistanceMetric, threshold: number, graph?: KnnGraph): DuplicateGroup[] {
+    const parent = Array.from({ length: n }, (_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+    const link = (i: number, j: number) => {
+        if (distanceToSimilarity(dist(i, j), metric) < threshold) return;
+        const a = find(i), b = find(j);
+        if (a !== b) parent[b] = a;
+    };
+
+    for (let i = 0; i < n; i++) {
+        if (graph) {
+            for (let s = 0; s < graph.k; s++) {
+                const j = graph.ids[i * graph.k + s];
+                if (j >= 0) link(i, j);
+            }
+        } else {
+            for (let j = i + 1; j < n; j++) link(i, j);
+        }
+    }
+
+    const members = new Map<number, number[]>();
+    for (let i = 0; i < n; i++) {
+        const root = find(i);
+        if (!members.has(root)) members.set(root, []);
+        members.get(root)!.push(i);
+    }
+    return [...members.values()]
+        .filter(indices => indices.length > 1)
+        .map(indices => ({ indices, representative: medoid(indices, dist) }));
+}
+
+// Entities that disappear from the list under the chosen action per group
+export function removedByReview(groups: DuplicateGroup[], actions: DuplicateAction[]) {
+    const removed = new Set<number>();
+    groups.forEach((group, k) => {
+        if (actions[k] === 'drop') group.indices.forEach(i => removed.add(i));
+        else if (actions[k] === 'merge') group.indices.forEach(i => { if (i !== group.representative) removed.add(i); });
+    });
+    return removed;
+}
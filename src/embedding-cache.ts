@@ -0,0 +1,77 @@
+// Persistent embedding cache (IndexedDB), used from the worker.
+// Entries are keyed by model name, pooling settings and the exact input text.
+const DB_NAME = 'semantic-sorter';
+const STORE = 'embeddings';
+
+interface CacheEntry {
+    key: string;
+    model: string;
+    vector: Float32Array;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const req = indexedDB.open(DB_NAME, 1);
+            req.onupgradeneeded = () => {
+                const store = req.result.createObjectStore(STORE, { keyPath: 'key' });
+                store.createIndex('model', 'model');
+            };
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => reject(req.error);
+        });
+    }
+    return dbPromise;
+};
+
+const requestToPromise = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+});
+
+export const cacheKey = (model: string, pooling: string, text: string) => `${model}\u0000${pooling}\u0000${text}`;
+
+// Returns the cached vector for every text, or undefined where there is none
+export async function getCachedEmbeddings(model: string, pooling: string, texts: string[]) {
+    const db = await openDb();
+    const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+    const entries = await Promise.all(texts.map(t => requestToPromise<CacheEntry | undefined>(store.get(cacheKey(model, pooling, t)))));
+    return entries.map(e => (e ? Array.from(e.vector) : undefined));
+}
+
+export async function putCachedEmbeddings(model: string, pooling: string, texts: string[], vectors: number[][]) {
+    const db = await openDb();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    texts.forEach((t, i) => {
+        store.put({ key: cacheKey(model, pooling, t), model, vector: Float32Array.from(vectors[i]) } as CacheEntry);
+    });
+    await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+}
+
+// Clears the entries of one model, or the whole cache if no model is given.
+// Resolves with the number of removed entries.
+export async function clearCachedEmbeddings(model?: string) {
+    const db = await openDb();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    let removed = 0;
+    if (model) {
+        const keys = await requestToPromise(store.index('model').getAllKeys(model));
+        keys.forEach(k => store.delete(k));
+        removed = keys.length;
+    } else {
+        removed = await requestToPromise(store.count());
+        store.clear();
+    }
+    await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+    return removed;
+}
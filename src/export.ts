@@ -0,0 +1,160 @@
+// Export formats for the sorted sequence, the similarity matrix and the map
+import { distanceToSimilarity, type DistanceFn, type DistanceMetric } from './distance';
+import type { Section } from './sections';
+import { segmentCuts, buildSegments, defaultSegmentOptions, type SegmentOptions } from './segments';
+
+export interface ExportRow {
+    rank: number;
+    index: number;            // position in the input
+    text: string;
+    similarity: number | null; // to the previous item, null for the first item of a section
+    section: string;
+    segment: string;          // name of the segment (run between topic breaks)
+    topicBreak: boolean;      // first item of a segment inside a section or list
+    x: number | null;         // null while the projection is running
+    y: number | null;
+    metadata: Record<string, string>;
+}
+
+export interface RowInput {
+    order: number[];
+    entities: string[];
+    distance: DistanceFn;
+    metric: DistanceMetric;
+    sections?: Section[] | null;
+    segments?: SegmentOptions;
+    coordinates?: number[][];
+    metadata?: Record<string, string>[] | null;
+}
+
+// One row per item in sorted order with its similarity to the previous item,
+// its section and segment. Shared by the export buttons and the CLI.
+export function resultRows(input: RowInput): ExportRow[] {
+    const { order, entities, distance, metric, sections, coordinates, metadata } = input;
+    const similarity = (i: number, j: number) => distanceToSimilarity(distance(i, j), metric);
+    const sectionOf = new Map<number, number>();
+    sections?.forEach((sec, k) => sec.indices.forEach(idx => sectionOf.set(idx, k)));
+    // Section starts are not transitions of the tour, so they always cut a segment
+    const breaks = new Set<number>();
+    if (sectionOf.size > 0) {
+        order.forEach((idx, i) => { if (i > 0 && sectionOf.get(idx) !== sectionOf.get(order[i - 1])) breaks.add(i); });
+    }
+    const segments = buildSegments(order, segmentCuts(order, similarity, input.segments ?? defaultSegmentOptions(metric), breaks), entities, distance);
+    const segmentOf = new Map(segments.flatMap(seg => seg.indices.map(idx => [idx, seg] as const)));
+
+    return order.map((idx, i) => {
+        const prev = i > 0 ? order[i - 1] : -1;
+        const segment = segmentOf.get(idx)!;
+        const k = sectionOf.get(idx);
+        const continues = i > 0 && (sectionOf.size === 0 || sectionOf.get(prev) === k);
+        const sim = continues ? similarity(prev, idx) : null;
+        return {
+            rank: i + 1,
+            index: idx,
+            text: entities[idx],
+            similarity: sim,
+            section: sections && k !== undefined ? sections[k].name : '',
+            segment: segment.name,
+            topicBreak: sim !== null && segment.start === i,
+            x: coordinates?.[idx]?.[0] ?? null,
+            y: coordinates?.[idx]?.[1] ?? null,
+            metadata: metadata?.[idx] ?? {}
+        };
+    });
+}
+
+const metadataColumns = (rows: ExportRow[]) => [...new Set(rows.flatMap(r => Object.keys(r.metadata)))];
+
+const csvCell = (v: unknown) => {
+    const s = v === null || v === undefined ? '' : String(v);
+    return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export function rowsToCsv(rows: ExportRow[]) {
+    const meta = metadataColumns(rows);
+    const header = ['rank', 'index', 'text', 'similarity', 'section', 'segment', 'topic_break', 'x', 'y', ...meta];
+    const lines = rows.map(r => [
+        r.rank, r.index, r.text, r.similarity === null ? '' : r.similarity.toFixed(4), r.section, r.segment,
+        r.topicBreak ? 1 : 0, r.x, r.y, ...meta.map(m => r.metadata[m] ?? '')
+    ].map(csvCell).join(','));
+    return [header.join(','), ...lines].join('\n');
+}
+
+export const rowsToJson = (rows: ExportRow[]) => JSON.stringify(rows, null, 2);
+
+export function rowsToMarkdown(rows: ExportRow[]) {
+    const meta = metadataColumns(rows);
+    const esc = (s: string) => s.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+    const header = `| Rank | Index | Text | Similarity | ${meta.map(esc).join(' | ')}${meta.length ? ' |' : ''}`;
+    const divider = `| ---: | ---: | :--- | ---: |${meta.map(() => ' :--- |').join('')}`;
+    const out: string[] = [];
+    let section: string | null = null;
+    rows.forEach(r => {
+        if (r.section !== section) {
+            section = r.section;
+            if (section) out.push('', `## ${section}`, '');
+            out.push(header, divider);
+        } else if (r.topicBreak) {
+            out.push(`| | | *${esc(r.segment)}* | |${meta.map(() => ' |').join('')}`);
+        }
+        const cells = [String(r.rank), String(r.index), esc(r.text), r.similarity === null ? '' : r.similarity.toFixed(4), ...meta.map(m => esc(r.metadata[m] ?? ''))];
+        out.push(`| ${cells.join(' | ')} |`);
+    });
+    return out.join('\n').trim() + '\n';
+}
+
+// Draft table of contents: sections as headings, segments as entries, items nested below
+export function outlineToMarkdown(rows: ExportRow[], withItems: boolean) {
+    const out: string[] = [];
+    let section: string | null = null;
+    rows.forEach((r, i) => {
+        if (r.section !== section) {
+            section = r.section;
+            if (section) out.push('', `## ${section}`, '');
+        }
+        if (i === 0 || r.topicBreak || r.section !== rows[i - 1].section) out.push(`- ${r.segment}`);
+        if (withItems) out.push(`  - ${r.text}`);
+    });
+    return out.join('\n').trim() + '\n';
+}
+
+export function matrixToCsv(entities: string[], similarity: (i: number, j: number) => number) {
+    const header = ['', ...entities].map(csvCell).join(',');
+    const lines = entities.map((e, i) => [csvCell(e), ...entities.map((_, j) => similarity(i, j).toFixed(4))].join(','));
+    return [header, ...lines].join('\n');
+}
+
+export interface SvgPoint { x: number; y: number; text: string; color: number[] }
+export interface SvgSegment { from: number[]; to: number[]; color: number[] }
+
+const rgba = (c: number[]) => `rgba(${c[0]},${c[1]},${c[2]},${c.length > 3 ? (c[3] / 255).toFixed(3) : 1})`;
+const xmlEscape = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Vector snapshot of the map in the same coordinate space as the deck.gl layers
+export function mapToSvg(points: SvgPoint[], segments: SvgSegment[], opts: { radius: number; lineWidth: number; labelSize: number; labels: boolean }) {
+    const pad = 20 + opts.labelSize;
+    const xs = points.map(p => p.x), ys = points.map(p => p.y);
+    const minX = Math.min(...xs) - pad, minY = Math.min(...ys) - pad;
+    const w = Math.max(...xs) - minX + pad, h = Math.max(...ys) - minY + pad;
+    // Scale up so labels stay readable relative to the layout
+    const k = 4;
+    const lines = segments.map(s => `<line x1="${s.from[0] * k}" y1="${s.from[1] * k}" x2="${s.to[0] * k}" y2="${s.to[1] * k}" stroke="${rgba(s.color)}" stroke-width="${opts.lineWidth}"/>`);
+    const dots = points.map(p => `<circle cx="${p.x * k}" cy="${p.y * k}" r="${opts.radius}" fill="${rgba(p.color)}"/>`);
+    const labels = opts.labels ? points.map(p => `<text x="${p.x * k}" y="${p.y * k - opts.radius - 4}" text-anchor="middle" font-family="system-ui, sans-serif" font-size="${opts.labelSize}" fill="rgba(255,255,255,0.63)">${xmlEscape(p.text)}</text>`) : [];
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${minX * k} ${minY * k} ${w * k} ${h * k}" width="${Math.round(w * k)}" height="${Math.round(h * k)}">
+<rect x="${minX * k}" y="${minY * k}" width="${w * k}" height="${h * k}" fill="#05070a"/>
+${lines.join('\n')}
+${dots.join('\n')}
+${labels.join('\n')}
+</svg>`;
+}
+
+export function download(filename: string, content: string | Blob, mime = 'text/plain') {
+    const blob = content instanceof Blob ? content : new Blob([content], { type: `${mime};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,235 @@
+// Canvas heatmap of the similarity matrix. Only the visible window is drawn, one sample
+// block per screen pixel, so thousands of items stay interactive. Wheel zooms around
+// the cursor, dragging pans.
+export interface HeatmapHandlers {
+    onHover: (i: number | null, j: number | null) => void;
+    onClick: (i: number, j: number) => void;
+}
+
+const BACKGROUND = [11, 15, 26];
+const MUTED = [71, 85, 105];
+const HIGHLIGHT_LOW = [37, 99, 235];
+const HIGHLIGHT_HIGH = [147, 197, 253];
+// Upper bound of samples per pixel and axis when zoomed out
+const MAX_SAMPLES = 4;
+// Cells per axis of the overview grid of a costly similarity (see `setData`)
+const GRID = 384;
+
+const lerp = (a: number[], b: number[], t: number) => a.map((x, k) => x + (b[k] - x) * t);
+
+export function createHeatmap(canvas: HTMLCanvasElement, tooltip: HTMLElement, handlers: HeatmapHandlers) {
+    const ctx = canvas.getContext('2d')!;
+    let labels: string[] = [];
+    let similarity: (i: number, j: number) => number = () => 0;
+    let order: number[] = [];
+    let threshold = 0.8;
+    // A costly similarity (computed from the vectors, no matrix) is read from a grid built
+    // once per order while zoomed out, and once per visible cell while zoomed in, instead
+    // of up to MAX_SAMPLES² times per pixel on every frame
+    let costly = false;
+    let grid: { size: number; values: Float32Array } | null = null;
+    // Visible window in cell units: top-left corner and cells per screen pixel
+    let view = { x: 0, y: 0, scale: 1 };
+    // Fitting needs the canvas size, which is 0 while the section is hidden
+    let needsFit = true;
+    let drag: { x: number; y: number; vx: number; vy: number; moved: boolean } | null = null;
+
+    const size = () => canvas.clientWidth;
+
+    const fit = () => {
+        view = { x: 0, y: 0, scale: order.length / Math.max(1, size()) };
+    };
+
+    const clampView = () => {
+        const n = order.length, extent = size() * view.scale;
+        view.scale = Math.min(view.scale, n / Math.max(1, size()));
+        view.x = Math.max(0, Math.min(view.x, n - extent));
+        view.y = Math.max(0, Math.min(view.y, n - extent));
+    };
+
+    const color = (sim: number) => {
+        const t = Math.max(0, Math.min(1, sim));
+        if (t < threshold) return lerp(BACKGROUND, MUTED, t);
+        return lerp(HIGHLIGHT_LOW, HIGHLIGHT_HIGH, threshold >= 1 ? 1 : (t - threshold) / (1 - threshold));
+    };
+
+    // Similarity at a fractional cell position for a costly similarity, see `costly`
+    const costlyValue = (w: number): ((r: number, c: number) => number) => {
+        const n = order.length;
+        if (view.scale <= 1) {
+            // Zoomed in: every visible cell covers at least a pixel, compute each one once
+            const top = Math.floor(view.y), left = Math.floor(view.x);
+            const span = Math.min(n, Math.ceil(w * view.scale) + 1);
+            const cells = new Float32Array(span * span).fill(NaN);
+            return (r0, c0) => {
+                const r = Math.floor(r0), c = Math.floor(c0);
+                const k = (r - top) * span + (c - left);
+                if (Number.isNaN(cells[k])) cells[k] = similarity(order[r], order[c]);
+                return cells[k];
+            };
+        }
+        if (!grid) {
+            const size = Math.min(GRID, n);
+            const values = new Float32Array(size * size);
+            const at = (g: number) => order[Math.min(n - 1, Math.floor(((g + 0.5) * n) / size))];
+            for (let a = 0; a < size; a++) {
+                for (let b = a; b < size; b++) {
+                    values[a * size + b] = values[b * size + a] = a === b ? 1 : similarity(at(a), at(b));
+                }
+            }
+            grid = { size, values };
+        }
+        const { size, values } = grid;
+        return (r0, c0) => values[Math.floor((r0 * size) / n) * size + Math.floor((c0 * size) / n)];
+    };
+
+    function render() {
+        const px = size();
+        if (px === 0) return;
+        if (needsFit) {
+            fit();
+            needsFit = false;
+        }
+        // One image pixel per CSS pixel: cells are flat colors, so high-DPI adds cost, not detail
+        const w = px;
+        if (canvas.width !== w || canvas.height !== w) {
+            canvas.width = w;
+            canvas.height = w;
+        }
+        canvas.style.height = `${px}px`;
+        const n = order.length;
+        const image = ctx.createImageData(w, w);
+        if (n > 0) {
+            const cellsPerPixel = view.scale;
+            const samples = Math.max(1, Math.min(MAX_SAMPLES, Math.ceil(cellsPerPixel)));
+            const value = costly ? costlyValue(w) : null;
+            for (let py = 0; py < w; py++) {
+                const r0 = view.y + py * cellsPerPixel;
+                for (let pxl = 0; pxl < w; pxl++) {
+                    const c0 = view.x + pxl * cellsPerPixel;
+                    let sim: number;
+                    if (value) {
+                        if (r0 >= n || c0 >= n) continue;
+                        sim = value(r0, c0);
+                    } else {
+                        // Mean similarity over the cells this pixel covers, subsampled when zoomed out
+                        let sum = 0, count = 0;
+                        for (let a = 0; a < samples; a++) {
+                            const r = Math.floor(r0 + (a * cellsPerPixel) / samples);
+                            if (r >= n) continue;
+                            for (let b = 0; b < samples; b++) {
+                                const c = Math.floor(c0 + (b * cellsPerPixel) / samples);
+                                if (c >= n) continue;
+                                sum += similarity(order[r], order[c]);
+                                count++;
+                            }
+                        }
+                        if (count === 0) continue;
+                        sim = sum / count;
+                    }
+                    const [red, green, blue] = color(sim);
+                    const o = (py * w + pxl) * 4;
+                    image.data[o] = red;
+                    image.data[o + 1] = green;
+                    image.data[o + 2] = blue;
+                    image.data[o + 3] = 255;
+                }
+            }
+        }
+        ctx.putImageData(image, 0, 0);
+    }
+
+    // Cell under a mouse event, as entity indices
+    const cellAt = (e: MouseEvent) => {
+        const rect = canvas.getBoundingClientRect();
+        const r = Math.floor(view.y + (e.clientY - rect.top) * view.scale);
+        const c = Math.floor(view.x + (e.clientX - rect.left) * view.scale);
+        if (r < 0 || c < 0 || r >= order.length || c >= order.length) return null;
+        return { i: order[r], j: order[c], rank: r, col: c };
+    };
+
+    canvas.addEventListener('wheel', (e) => {
+        if (order.length === 0) return;
+        e.preventDefault();
+        const rect = canvas.getBoundingClientRect();
+        const mx = e.clientX - rect.left, my = e.clientY - rect.top;
+        const cx = view.x + mx * view.scale, cy = view.y + my * view.scale;
+        // Zoom in down to a few pixels per cell
+        view.scale = Math.max(1 / 40, view.scale * Math.exp(e.deltaY * 0.001));
+        view.x = cx - mx * view.scale;
+        view.y = cy - my * view.scale;
+        clampView();
+        render();
+    }, { passive: false });
+
+    canvas.addEventListener('mousedown', (e) => {
+        drag = { x: e.clientX, y: e.clientY, vx: view.x, vy: view.y, moved: false };
+    });
+
+    window.addEventListener('mouseup', (e) => {
+        if (drag && !drag.moved && e.target === canvas) {
+            const cell = cellAt(e);
+            if (cell) handlers.onClick(cell.i, cell.j);
+        }
+        drag = null;
+    });
+
+    canvas.addEventListener('mousemove', (e) => {
+        if (drag) {
+            const dx = e.clientX - drag.x, dy = e.clientY - drag.y;
+            if (Math.abs(dx) + Math.abs(dy) > 3) drag.moved = true;
+            if (drag.moved) {
+                view.x = drag.vx - dx * view.scale;
+                view.y = drag.vy - dy * view.scale;
+                clampView();
+                render();
+            }
+            return;
+        }
+        const cell = cellAt(e);
+        if (!cell) {
+            tooltip.classList.add('hidden');
+            handlers.onHover(null, null);
+            return;
+        }
+        tooltip.textContent = `${cell.rank + 1}. ${labels[cell.i]}\n${cell.col + 1}. ${labels[cell.j]}\nsim ${similarity(cell.i, cell.j).toFixed(3)}`;
+        const parent = canvas.parentElement!.getBoundingClientRect();
+        tooltip.style.left = `${e.clientX - parent.left + 14}px`;
+        tooltip.style.top = `${e.clientY - parent.top + 14}px`;
+        tooltip.classList.remove('hidden');
+        handlers.onHover(cell.i, cell.j);
+    });
+
+    canvas.addEventListener('mouseleave', () => {
+        tooltip.classList.add('hidden');
+        handlers.onHover(null, null);
+    });
+
+    return {
+        // New data resets zoom and pan. `costly`: the similarity is computed on every call
+        // (no matrix behind it), so it is sampled far less often.
+        setData(nextLabels: string[], nextSimilarity: (i: number, j: number) => number, nextOrder: number[], nextCostly = false) {
+            labels = nextLabels;
+            similarity = nextSimilarity;
+            order = nextOrder;
+            costly = nextCostly;
+            grid = null;
+            needsFit = true;
+            render();
+        },
+        setOrder(nextOrder: number[]) {
+            order = nextOrder;
+            grid = null;
+            render();
+        },
+        setThreshold(value: number) {
+            threshold = value;
+            render();
+        },
+        resetView() {
+            needsFit = true;
+            render();
+        },
+        render
+    };
+}
@@ -0,0 +1,327 @@
+// Large-list path: an approximate k-nearest-neighbour graph from the embeddings, a
+// greedy-edge tour and 2-opt / Or-opt on the open path. Everything works on neighbour
+// lists, so nothing of size n×n has to be handed to the VRP solver.
+import type { DistanceFn, PackedEmbeddings } from './distance';
+import type { Grouping } from './sections';
+import { seededRandom } from './random';
+
+// k neighbour ids per node, nearest first; -1 where fewer were found
+export interface KnnGraph {
+    n: number;
+    k: number;
+    ids: Int32Array;
+}
+
+export interface KnnOptions {
+    trees?: number;    // random projection trees
+    leafSize?: number; // all pairs inside a leaf are candidates
+    rounds?: number;   // neighbour-of-neighbour refinement rounds
+    seed?: number;
+}
+
+const EPS = 1e-9;
+
+// Random projection forest plus NN-descent style refinement. Each tree splits the points
+// by random hyperplanes until the leaves are small; points sharing a leaf are candidates.
+export function knnGraph(packed: PackedEmbeddings, dist: DistanceFn, k: number, opts: KnnOptions = {}): KnnGraph {
+    const { n, dim, data } = packed;
+    const kk = Math.max(1, Math.min(k, n - 1));
+    const ids = new Int32Array(n * kk).fill(-1);
+    const dists = new Float32Array(n * kk).fill(Infinity);
+    const random = seededRandom(opts.seed ?? 1);
+    const leafSize = Math.max(kk + 1, opts.leafSize ?? 48);
+
+    // Keeps the kk nearest candidates of `a`, sorted ascending
+    const offer = (a: number, b: number, d: number) => {
+        const base = a * kk;
+        if (a === b || d >= dists[base + kk - 1]) return false;
+        for (let s = 0; s < kk; s++) if (ids[base + s] === b) return false;
+        let s = kk - 1;
+        while (s > 0 && dists[base + s - 1] > d) {
+            dists[base + s] = dists[base + s - 1];
+            ids[base + s] = ids[base + s - 1];
+            s--;
+        }
+        dists[base + s] = d;
+        ids[base + s] = b;
+        return true;
+    };
+    const dot = (i: number, j: number) => {
+        let s = 0;
+        const oi = i * dim, oj = j * dim;
+        for (let t = 0; t < dim; t++) s += data[oi + t] * data[oj + t];
+        return s;
+    };
+
+    for (let tree = 0; tree < (opts.trees ?? 4); tree++) {
+        const stack: number[][] = [Array.from({ length: n }, (_, i) => i)];
+        while (stack.length > 0) {
+            const members = stack.pop()!;
+            if (members.length <= leafSize) {
+                for (let x = 0; x < members.length; x++) {
+                    for (let y = x + 1; y < members.length; y++) {
+                        const d = dist(members[x], members[y]);
+                        offer(members[x], members[y], d);
+                        offer(members[y], members[x], d);
+                    }
+                }
+                continue;
+            }
+            // Hyperplane halfway between two random members
+            const p = members[Math.floor(random() * members.length)];
+            let q = members[Math.floor(random() * members.length)];
+            if (q === p) q = members[(members.indexOf(p) + 1) % members.length];
+            const threshold = (dot(p, p) - dot(q, q)) / 2;
+            const left: number[] = [], right: number[] = [];
+            members.forEach(m => (dot(m, p) - dot(m, q) < threshold ? left : right).push(m));
+            // Duplicates land on one side; fall back to an arbitrary halving
+            if (left.length === 0 || right.length === 0) {
+                const half = members.length >> 1;
+                stack.push(members.slice(0, half), members.slice(half));
+            } else {
+                stack.push(left, right);
+            }
+        }
+    }
+
+    // Neighbours of neighbours are likely neighbours
+    for (let round = 0; round < (opts.rounds ?? 2); round++) {
+        let updates = 0;
+        for (let a = 0; a < n; a++) {
+            for (let s = 0; s < kk; s++) {
+                const b = ids[a * kk + s];
+                if (b < 0) continue;
+                for (let t = 0; t < kk; t++) {
+                    const c = ids[b * kk + t];
+                    if (c < 0 || c === a) continue;
+                    const d = dist(a, c);
+                    if (offer(a, c, d)) updates++;
+                    if (offer(c, a, d)) updates++;
+                }
+            }
+        }
+        if (updates < n * 0.001) break;
+    }
+    return { n, k: kk, ids };
+}
+
+const neighbours = (graph: KnnGraph, a: number) => (a < graph.n ? graph.ids.subarray(a * graph.k, a * graph.k + graph.k) : new Int32Array(0));
+
+// Greedy edge: the shortest candidate edges are taken as long as no node gets a third
+// edge and no cycle closes. Returns the resulting path fragments (singletons included).
+export function greedyFragments(nodes: number[], graph: KnnGraph, dist: DistanceFn): number[][] {
+    const member = new Set(nodes);
+    const edges: { a: number; b: number; d: number }[] = [];
+    nodes.forEach(a => neighbours(graph, a).forEach(b => {
+        if (b >= 0 && member.has(b) && (a < b || !neighbours(graph, b).includes(a))) edges.push({ a, b, d: dist(a, b) });
+    }));
+    edges.sort((x, y) => x.d - y.d);
+
+    const links = new Map<number, number[]>(nodes.map(a => [a, []]));
+    const parent = new Map<number, number>(nodes.map(a => [a, a]));
+    const find = (a: number): number => {
+        const p = parent.get(a)!;
+        if (p === a) return a;
+        const root = find(p);
+        parent.set(a, root);
+        return root;
+    };
+    edges.forEach(({ a, b }) => {
+        const la = links.get(a)!, lb = links.get(b)!;
+        if (la.length >= 2 || lb.length >= 2) return;
+        const ra = find(a), rb = find(b);
+        if (ra === rb) return;
+        parent.set(ra, rb);
+        la.push(b);
+        lb.push(a);
+    });
+
+    const seen = new Set<number>();
+    const fragments: number[][] = [];
+    nodes.forEach(start => {
+        if (seen.has(start) || links.get(start)!.length > 1) return;
+        const path: number[] = [];
+        let prev = -1, cur = start;
+        while (cur >= 0) {
+            path.push(cur);
+            seen.add(cur);
+            const next = links.get(cur)!.find(x => x !== prev && !seen.has(x));
+            prev = cur;
+            cur = next ?? -1;
+        }
+        fragments.push(path);
+    });
+    return fragments;
+}
+
+// Chains the fragments into one path from `start`, always continuing with the
+// fragment whose nearer end is closest to the current tail
+export function joinFragments(fragments: number[][], start: number, dist: DistanceFn) {
+    const path = [start];
+    const remaining = fragments.map(f => [...f]);
+    let tail = start;
+    while (remaining.length > 0) {
+        let best = 0, bestD = Infinity, reversed = false;
+        remaining.forEach((f, i) => {
+            const dh = dist(tail, f[0]), dt = dist(tail, f[f.length - 1]);
+            if (dh < bestD) { best = i; bestD = dh; reversed = false; }
+            if (dt < bestD) { best = i; bestD = dt; reversed = true; }
+        });
+        const f = remaining.splice(best, 1)[0];
+        if (reversed) f.reverse();
+        path.push(...f);
+        tail = path[path.length - 1];
+    }
+    return path;
+}
+
+export interface ImproveOptions {
+    lockFirst: boolean; // tour[0] stays first
+    lockLast: boolean;  // the last node stays last
+    deadline: number;   // performance.now() value to stop at, Infinity for none
+}
+
+// One sweep of neighbour-list 2-opt followed by one sweep of Or-opt (moving runs of
+// 1-3 nodes next to a neighbour). Returns whether anything improved.
+export function improveSweep(tour: number[], graph: KnnGraph, dist: DistanceFn, opts: ImproveOptions) {
+    const len = tour.length;
+    const lo = opts.lockFirst ? 1 : 0;
+    const hi = len - 1 - (opts.lockLast ? 1 : 0);
+    const pos = new Map<number, number>();
+    const reindex = (from: number, to: number) => { for (let p = from; p <= to; p++) pos.set(tour[p], p); };
+    reindex(0, len - 1);
+    const reverse = (from: number, to: number) => {
+        for (let x = from, y = to; x < y; x++, y--) [tour[x], tour[y]] = [tour[y], tour[x]];
+        reindex(from, to);
+    };
+    const d = (a: number, b: number) => (a < 0 || b < 0 ? 0 : dist(a, b));
+    let improved = false;
+
+    // 2-opt: a new edge from a node to one of its neighbours, reversing what lies between
+    for (let i = 0; i < len - 1; i++) {
+        if ((i & 255) === 0 && performance.now() > opts.deadline) return improved;
+        const a = tour[i], b = tour[i + 1];
+        let moved = false;
+        for (const c of neighbours(graph, a)) {
+            const j = c >= 0 ? pos.get(c) : undefined;
+            if (j === undefined || j <= i + 1 || i + 1 < lo || j > hi) continue;
+            const e = j + 1 < len ? tour[j + 1] : -1;
+            if (d(a, c) + d(b, e) < d(a, b) + d(c, e) - EPS) {
+                reverse(i + 1, j);
+                moved = true;
+                break;
+            }
+        }
+        if (moved) { improved = true; continue; }
+        for (const c of neighbours(graph, b)) {
+            const j = c >= 0 ? pos.get(c) : undefined;
+            if (j === undefined || j >= i || j < lo || i > hi) continue;
+            const p = j > 0 ? tour[j - 1] : -1;
+            if (d(c, b) + d(p, a) < d(a, b) + d(p, c) - EPS) {
+                reverse(j, i);
+                improved = true;
+                break;
+            }
+        }
+    }
+
+    // Or-opt: move a short run between a neighbour and its successor, in either orientation
+    for (let s = lo; s <= hi; s++) {
+        if ((s & 255) === 0 && performance.now() > opts.deadline) return improved;
+        for (let L = 1; L <= 3 && s + L - 1 <= hi; L++) {
+            const first = tour[s], last = tour[s + L - 1];
+            const prev = s > 0 ? tour[s - 1] : -1, next = s + L < len ? tour[s + L] : -1;
+            const removal = d(prev, first) + d(last, next) - d(prev, next);
+            let best: { at: number; flip: boolean; delta: number } | null = null;
+            for (const c of [...neighbours(graph, first), ...neighbours(graph, last)]) {
+                const p = c >= 0 ? pos.get(c) : undefined;
+                if (p === undefined) continue;
+                // Gaps (x, y) next to c that lie outside the run; inserting keeps fixed ends in place
+                for (const at of [p, p - 1]) {
+                    if (at < 0 || at + 1 >= len || (at >= s - 1 && at <= s + L - 1)) continue;
+                    if (at + 1 < lo || at + 1 > hi + 1) continue;
+                    const x = tour[at], y = tour[at + 1];
+                    const plain = d(x, first) + d(last, y) - d(x, y);
+                    const flipped = d(x, last) + d(first, y) - d(x, y);
+                    const delta = Math.min(plain, flipped) - removal;
+                    if (delta < -EPS && (!best || delta < best.delta)) best = { at, flip: flipped < plain, delta };
+                }
+            }
+            if (best) {
+                const run = tour.splice(s, L);
+                if (best.flip) run.reverse();
+                const at = best.at < s ? best.at + 1 : best.at + 1 - L;
+                tour.splice(at, 0, ...run);
+                reindex(Math.min(s, at), Math.max(s + L - 1, at + L - 1));
+                improved = true;
+                break;
+            }
+        }
+    }
+    return improved;
+}
+
+// Exchanges items between paths of fixed length (the legs between anchors): an item takes
+// the place of one in another path next to which it fits better, and that one moves to
+// its place. `lockLast` per path keeps its last node. Returns whether anything improved.
+export function swapSweep(paths: number[][], lockLast: boolean[], graph: KnnGraph, dist: DistanceFn, deadline: number) {
+    const where = new Map<number, [number, number]>();
+    paths.forEach((path, r) => path.forEach((v, p) => where.set(v, [r, p])));
+    const movable = (r: number, p: number) => p >= 1 && (p < paths[r].length - 1 || !lockLast[r]);
+    // Cost of the edges around position p if v stood there
+    const around = (path: number[], p: number, v: number) => dist(path[p - 1], v) + (p + 1 < path.length ? dist(v, path[p + 1]) : 0);
+    let improved = false;
+    let steps = 0;
+    paths.forEach((path, r) => {
+        for (let p = 1; p < path.length; p++) {
+            if (!movable(r, p)) continue;
+            if ((steps++ & 255) === 0 && performance.now() > deadline) return;
+            const x = path[p];
+            const candidates = p + 1 < path.length ? [...neighbours(graph, path[p - 1]), ...neighbours(graph, path[p + 1])] : neighbours(graph, path[p - 1]);
+            for (const y of candidates) {
+                const at = y >= 0 ? where.get(y) : undefined;
+                if (!at || at[0] === r || !movable(at[0], at[1])) continue;
+                const other = paths[at[0]], q = at[1];
+                const delta = around(path, p, y) - around(path, p, x) + around(other, q, x) - around(other, q, y);
+                if (delta < -EPS) {
+                    path[p] = y;
+                    other[q] = x;
+                    where.set(y, [r, p]);
+                    where.set(x, [at[0], q]);
+                    improved = true;
+                    break;
+                }
+            }
+        }
+    });
+    return improved;
+}
+
+// Splits one path into sections at its weakest transitions: K-1 cuts for 'count',
+// and for 'capacity' as many as it takes to bring every section down to the maximum size
+export function splitPath(path: number[], dist: DistanceFn, grouping: Grouping): number[][] {
+    if (grouping.mode === 'none' || path.length < 2) return [path];
+    const gaps = path.slice(1).map((b, i) => ({ at: i + 1, d: dist(path[i], b) }));
+    const cuts = new Set<number>();
+    if (grouping.mode === 'count') {
+        [...gaps].sort((x, y) => y.d - x.d).slice(0, Math.max(0, Math.min(grouping.count, path.length) - 1)).forEach(g => cuts.add(g.at));
+    } else {
+        const max = Math.max(1, grouping.maxSize);
+        const pieces = [[0, path.length]];
+        while (pieces.length > 0) {
+            const [from, to] = pieces.pop()!;
+            if (to - from <= max) continue;
+            // Weakest transition inside the piece
+            let cut = from + 1;
+            for (let at = from + 1; at < to; at++) if (gaps[at - 1].d > gaps[cut - 1].d) cut = at;
+            cuts.add(cut);
+            pieces.push([from, cut], [cut, to]);
+        }
+    }
+    const tours: number[][] = [];
+    path.forEach((idx, i) => {
+        if (i === 0 || cuts.has(i)) tours.push([]);
+        tours[tours.length - 1].push(idx);
+    });
+    return tours;
+}
@@ -0,0 +1,166 @@
+// Incremental insertion of new items into existing open tours, keeping the
+// rest of the order stable.
+import type { DistanceFn } from './distance';
+
+export interface InsertionOptions {
+    lockFirst?: boolean; // keep tours[0][0] in front (pinned @start)
+    lockLast?: boolean;  // keep the last item of the last tour at the end (pinned @end)
+    fixed?: number[];    // items that keep their position in their tour (@N pins, locks)
+    window?: number;     // positions around each insertion that local search may touch
+}
+
+// A tour split into the items that may shift and the fixed ones: each run of fixed
+// items stays behind the first `k` free items; the @end run stays behind all of them.
+interface Layout {
+    free: number[];
+    runs: { k: number; items: number[]; tail: boolean }[];
+}
+
+function layout(tour: number[], isFixed: (pos: number) => boolean, lockLast: boolean): Layout {
+    const free: number[] = [];
+    const runs: Layout['runs'] = [];
+    tour.forEach((idx, pos) => {
+        const tail = lockLast && pos === tour.length - 1;
+        if (!tail && !isFixed(pos)) {
+            free.push(idx);
+            return;
+        }
+        const last = runs[runs.length - 1];
+        if (!tail && last && last.k === free.length && isFixed(pos - 1)) last.items.push(idx);
+        else runs.push({ k: free.length, items: [idx], tail });
+    });
+    return { free, runs };
+}
+
+function merge({ free, runs }: Layout) {
+    const out: number[] = [];
+    let at = 0;
+    runs.forEach(run => {
+        const k = run.tail ? free.length : run.k;
+        out.push(...free.slice(at, k), ...run.items);
+        at = k;
+    });
+    out.push(...free.slice(at));
+    return out;
+}
+
+// Inserts every new index at its cheapest position, in order of how well it fits
+// anywhere, so strong matches settle first. Fixed items keep their positions: the
+// free items behind an insertion shift past them. Returns the updated tours.
+export function insertIntoTours(tours: number[][], newIndices: number[], d: DistanceFn, opts: InsertionOptions = {}) {
+    const fixed = new Set(opts.fixed ?? []);
+    const source = tours.length > 0 ? tours : [[]];
+    const layouts = source.map((tour, t) => layout(
+        tour,
+        pos => pos >= 0 && (fixed.has(tour[pos]) || (t === 0 && pos === 0 && !!opts.lockFirst)),
+        t === source.length - 1 && !!opts.lockLast
+    ));
+
+    // Edges a fixed run adds to a free path `at` when it sits behind the first k items
+    const runCost = (at: (i: number) => number, length: number, k: number, items: number[]) => {
+        const prev = k > 0 ? at(k - 1) : -1, next = k < length ? at(k) : -1;
+        let cost = 0;
+        if (prev >= 0) cost += d(prev, items[0]);
+        if (next >= 0) cost += d(items[items.length - 1], next);
+        if (prev >= 0 && next >= 0) cost -= d(prev, next);
+        return cost;
+    };
+
+    const cheapest = (idx: number) => {
+        let best = { cost: Infinity, tour: 0, pos: 0 };
+        layouts.forEach(({ free, runs }, t) => {
+            for (let pos = 0; pos <= free.length; pos++) {
+                const prev = pos > 0 ? free[pos - 1] : -1;
+                const next = pos < free.length ? free[pos] : -1;
+                let cost = 0;
+                if (prev >= 0) cost += d(prev, idx);
+                if (next >= 0) cost += d(idx, next);
+                if (prev >= 0 && next >= 0) cost -= d(prev, next);
+                // Runs behind the insertion keep their place, so their neighbours change
+                const before = (i: number) => free[i];
+                const grown = (i: number) => (i < pos ? free[i] : i === pos ? idx : free[i - 1]);
+                runs.forEach(run => {
+                    const k = run.tail ? free.length : run.k;
+                    if (k < pos) return;
+                    cost += runCost(grown, free.length + 1, run.tail ? k + 1 : k, run.items) - runCost(before, free.length, k, run.items);
+                });
+                if (cost < best.cost) best = { cost, tour: t, pos };
+            }
+        });
+        return best;
+    };
+
+    const pending = [...newIndices];
+    while (pending.length > 0) {
+        let pick = 0, pickBest = cheapest(pending[0]);
+        for (let k = 1; k < pending.length; k++) {
+            const b = cheapest(pending[k]);
+            if (b.cost < pickBest.cost) { pick = k; pickBest = b; }
+        }
+        const idx = pending.splice(pick, 1)[0];
+        layouts[pickBest.tour].free.splice(pickBest.pos, 0, idx);
+    }
+
+    const result = layouts.map(merge);
+    if (opts.window && opts.window > 0) {
+        const added = new Set(newIndices);
+        const free = new Set(layouts.flatMap(l => l.free));
+        result.forEach(tour => {
+            tour.forEach((idx, pos) => {
+                if (!added.has(idx)) return;
+                // The window stays between the fixed items around the insertion
+                let lo = pos, hi = pos;
+                while (lo > Math.max(0, pos - opts.window!) && free.has(tour[lo - 1])) lo--;
+                while (hi < Math.min(tour.length - 1, pos + opts.window!) && free.has(tour[hi + 1])) hi++;
+                twoOptWindow(tour, lo, hi, d);
+            });
+        });
+    }
+    return result;
+}
+
+// 2-opt on an open path, restricted to reversing segments inside [lo, hi]
+function twoOptWindow(tour: number[], lo: number, hi: number, d: DistanceFn) {
+    let improved = true;
+    while (improved) {
+        improved = false;
+        for (let i = lo; i < hi; i++) {
+            for (let j = i + 1; j <= hi; j++) {
+                const a = i > 0 ? tour[i - 1] : -1, b = tour[i];
+                const c = tour[j], e = j < tour.length - 1 ? tour[j + 1] : -1;
+                const before = (a >= 0 ? d(a, b) : 0) + (e >= 0 ? d(c, e) : 0);
+                const after = (a >= 0 ? d(a, c) : 0) + (e >= 0 ? d(b, e) : 0);
+                if (after < before - 1e-9) {
+                    const seg = tour.slice(i, j + 1).reverse();
+                    tour.splice(i, seg.length, ...seg);
+                    improved = true;
+                }
+            }
+        }
+    }
+}
+
+// Position for an out-of-sample point: the distance-weighted mean of its nearest
+// existing neighbours, so the existing layout does not move
+export function placeByDistances(coordinates: number[][], distances: ArrayLike<number>, count: number, k = 5) {
+    const nearest = Array.from({ length: count }, (_, j) => j)
+        .sort((a, b) => distances[a] - distances[b])
+        .slice(0, k);
+    const dims = coordinates[0]?.length ?? 2;
+    const sum = new Array(dims).fill(0);
+    let wsum = 0;
+    nearest.forEach(j => {
+        const w = 1 / (distances[j] + 1e-3);
+        coordinates[j].forEach((x, k) => { sum[k] += x * w; });
+        wsum += w;
+    });
+    return sum.map(x => (wsum > 0 ? x / wsum : 0));
+}
+
+export function placeNewPoints(coordinates: number[][], newIndices: number[], existingCount: number, dist: DistanceFn, k = 5) {
+    const out = coordinates.map(c => [...c]);
+    newIndices.forEach(idx => {
+        out[idx] = placeByDistances(coordinates, Float32Array.from({ length: existingCount }, (_, j) => dist(idx, j)), existingCount, k);
+    });
+    return out;
+}
@@ -0,0 +1,177 @@
+// Library entry for scripts and data pipelines: the same pipeline as the web worker,
+// run in-process without any DOM. Works in Node and in the browser.
+//
+//   const result = await semanticSort(lines, { localModelPath: './models', offline: true, wasm });
+//   result.rows.forEach(r => console.log(r.rank, r.text, r.similarity));
+import { pipeline, env } from '@huggingface/transformers';
+import init, { solve_pragmatic } from './vrp-pkg/vrp_cli.js';
+import { packEmbeddings, buildDistanceMatrix, distancesTo, distanceToSimilarity, embeddingDistances, matrixDistances, type DistanceMetric } from './distance';
+import { embedTexts, solveOrder, type SolveFn } from './pipeline';
+import { defaultModelSettings, DEFAULT_MODEL, type ModelDtype, type ModelSettings, type Pooling } from './models';
+import { buildSolverConfig, defaultSolverSettings, pickSolverPath, type SolverPath, type SolverSettings } from './solver-settings';
+import { project, type ProjectionSettings } from './projection';
+import { resultRows, type ExportRow } from './export';
+import { seedCryptoRandom } from './random';
+import type { Grouping, Section } from './sections';
+import type { SortConstraints } from './constraints';
+import type { SegmentOptions } from './segments';
+
+export { DEFAULT_MODEL, MODEL_PRESETS, defaultModelSettings, type ModelDtype, type ModelPreset, type ModelSettings, type Pooling } from './models';
+export { parseInput, emptyConstraints, type SortConstraints } from './constraints';
+export { parseStructured, formatFromFileName, guessTextColumns, rowText, type StructuredData, type StructuredFormat } from './structured-input';
+export { rowsToCsv, rowsToJson, rowsToMarkdown, outlineToMarkdown, type ExportRow } from './export';
+export { defaultSolverSettings, LARGE_LIST_SIZE, type SolverPath, type SolverSettings } from './solver-settings';
+export { defaultProjectionSettings, type ProjectionSettings } from './projection';
+export { noGrouping, type Grouping, type Section } from './sections';
+export { defaultSegmentOptions, type SegmentOptions } from './segments';
+export type { DistanceMetric } from './distance';
+
+export interface ModelOptions {
+    model?: string;          // model id, resolved under localModelPath first
+    localModelPath?: string; // directory holding <model>/config.json, tokenizer and onnx/
+    cacheDir?: string;       // where downloaded models are stored (Node)
+    offline?: boolean;       // never download; the model must be available locally
+    device?: string;         // 'cpu' in Node, 'wasm' or 'webgpu' in the browser
+    dtype?: ModelDtype;
+    // Override the preset of the model (see MODEL_PRESETS), or mean pooling without prompts
+    pooling?: Pooling;
+    queryPrompt?: string;    // `{text}` marks where the input goes
+    documentPrompt?: string;
+}
+
+// The model's preset with the given options applied on top
+export const resolveModelSettings = (options: ModelOptions = {}): ModelSettings => {
+    const base = defaultModelSettings(options.model ?? DEFAULT_MODEL);
+    return {
+        ...base,
+        dtype: options.dtype ?? base.dtype,
+        pooling: options.pooling ?? base.pooling,
+        queryPrompt: options.queryPrompt ?? base.queryPrompt,
+        documentPrompt: options.documentPrompt ?? base.documentPrompt
+    };
+};
+
+export interface SortOptions extends ModelOptions {
+    extractor?: any;         // a loaded feature-extraction pipeline, skips loading the model
+    batchSize?: number;
+    metric?: DistanceMetric;
+    constraints?: SortConstraints;
+    grouping?: Grouping;
+    solver?: Partial<SolverSettings>;
+    query?: { text: string; mode: 'closest' | 'depot' } | null;
+    projection?: ProjectionSettings | null; // null: no coordinates
+    segments?: SegmentOptions;
+    metadata?: Record<string, string>[] | null; // carried into the rows per entity
+    // vrp-cli wasm bytes or module. Needed where the bundled file can't be fetched (Node).
+    wasm?: BufferSource | WebAssembly.Module;
+    onStatus?: (message: string) => void;
+    onProgress?: (done: number, total: number) => void;
+}
+
+export interface SortResult {
+    entities: string[];
+    sortedIndices: number[];
+    sections: Section[] | null;
+    solverPath: SolverPath;  // 'heuristic' when the large-list path ordered the items
+    embeddings: number[][];
+    matrix: Float32Array | null; // n×n distances, row-major; null on the heuristic path
+    metric: DistanceMetric;
+    coordinates: number[][] | null;
+    query: { text: string; similarities: number[] } | null;
+    rows: ExportRow[];
+}
+
+export async function loadEmbedder(options: ModelOptions = {}) {
+    env.allowLocalModels = true;
+    env.allowRemoteModels = !options.offline;
+    if (options.localModelPath) env.localModelPath = options.localModelPath;
+    if (options.cacheDir) env.cacheDir = options.cacheDir;
+    const { modelName, dtype } = resolveModelSettings(options);
+    return pipeline('feature-extraction', modelName, {
+        ...(options.device ? { device: options.device as any } : {}),
+        dtype
+    });
+}
+
+// vrp-cli keeps a single wasm instance per process and seeds its RNG on first use,
+// so a seed only makes the first solve of a process reproducible.
+const solveInProcess: SolveFn = async (problem, matrices, settings) => {
+    const restore = settings.seed !== null ? seedCryptoRandom(settings.seed) : null;
+    try {
+        return JSON.parse(solve_pragmatic(problem, matrices, buildSolverConfig(settings)));
+    } finally {
+        restore?.();
+    }
+};
+
+// Embeds the texts, sorts them and optionally projects them for a map
+export async function semanticSort(entities: string[], options: SortOptions = {}): Promise<SortResult> {
+    const status = options.onStatus ?? (() => {});
+    const metric = options.metric ?? 'cosine';
+    const solver = { ...defaultSolverSettings(), ...options.solver };
+    const model = resolveModelSettings(options);
+
+    await init(options.wasm ? { module_or_path: options.wasm } : undefined);
+
+    let extractor = options.extractor;
+    if (!extractor) {
+        status(`Loading model: ${options.model ?? DEFAULT_MODEL}...`);
+        extractor = await loadEmbedder(options);
+    }
+
+    status('Computing embeddings...');
+    const embeddings = await embedTexts(extractor, entities, options.batchSize ?? 32, (_, __, done) => options.onProgress?.(done, entities.length), model);
+
+    // The heuristic path computes distances from the vectors instead of holding every pair
+    const packed = packEmbeddings(embeddings);
+    let matrix: Float32Array | null = null;
+    if (pickSolverPath(entities.length, solver) === 'vrp') {
+        status('Calculating distance matrix...');
+        matrix = buildDistanceMatrix(packed, metric);
+    }
+
+    let queryDistances: Float32Array | null = null;
+    const queryText = options.query?.text.trim();
+    if (queryText) {
+        const [queryVector] = await embedTexts(extractor, [queryText], 1, undefined, model, 'query');
+        queryDistances = distancesTo(queryVector, packed, metric);
+    }
+
+    const { sortedIndices, sections, path } = await solveOrder(entities, matrix, {
+        constraints: options.constraints,
+        grouping: options.grouping,
+        solver,
+        query: queryDistances ? { distances: queryDistances, mode: options.query!.mode } : null,
+        embeddings: packed,
+        metric,
+        onStatus: status
+    }, solveInProcess);
+
+    let coordinates: number[][] | null = null;
+    if (options.projection) {
+        status('Projecting...');
+        coordinates = project(embeddings, options.projection);
+    }
+
+    return {
+        entities,
+        sortedIndices,
+        sections,
+        solverPath: path,
+        embeddings,
+        matrix,
+        metric,
+        coordinates,
+        query: queryDistances ? { text: queryText!, similarities: Array.from(queryDistances, d => distanceToSimilarity(d, metric)) } : null,
+        rows: resultRows({
+            order: sortedIndices,
+            entities,
+            distance: matrix ? matrixDistances(matrix, entities.length) : embeddingDistances(packed, metric),
+            metric,
+            sections,
+            segments: options.segments,
+            coordinates: coordinates ?? undefined,
+            metadata: options.metadata
+        })
+    };
+}
@@ -1,24 +1,105 @@
 import './style.css'
 import Worker from './worker?worker'
-import { Deck, OrthographicView } from '@deck.gl/core';
-import { ScatterplotLayer, PathLayer, TextLayer } from '@deck.gl/layers';
+import { Deck, OrthographicView, OrbitView } from '@deck.gl/core';
+import { ScatterplotLayer, PathLayer, TextLayer, PolygonLayer } from '@deck.gl/layers';
+import { buildDistanceMatrix, convertSimilarity, distanceToSimilarity, embeddingDistances, matrixDistances, orderDistances, packEmbeddings, transitionDistances, type DistanceFn, type DistanceMetric } from './distance';
+import { noGrouping, type Grouping, type GroupingMode, type Section } from './sections';
+import { defaultSolverSettings, LARGE_LIST_SIZE, type SolverSettings } from './solver-settings';
+import { buildQualityReport, orderStats } from './quality';
+import { resultRows, rowsToCsv, rowsToJson, rowsToMarkdown, outlineToMarkdown, matrixToCsv, mapToSvg, download, type ExportRow } from './export';
+import { saveSession, loadSession, deleteSession, listSessions, sessionToJson, sessionFromJson, newSessionId, type Session } from './sessions';
+import { parseStructured, detectFormat, formatFromFileName, guessTextColumns, rowText, type StructuredData, type StructuredFormat } from './structured-input';
+import { parseInput, emptyConstraints, stripMarker, type SortConstraints } from './constraints';
+import { segmentCuts, buildSegments, convexHull, defaultSegmentOptions, type Segment, type SegmentMode, type SegmentOptions } from './segments';
+import { defaultProjectionSettings, type ProjectionMethod, type ProjectionSettings } from './projection';
+import { placeByDistances } from './insertion';
+import { createHeatmap } from './heatmap';
+import { removedByReview, type DuplicateAction, type DuplicateGroup } from './duplicates';
+import { envelope, formatTimings, PROTOCOL_VERSION, type LocalModelFile, type QueryAnchor, type ComparedPayload, type QueryMode, type ResponseMessage, type SortedPayload, type WorkerRequest } from './protocol';
+import { MODEL_PRESETS, DEFAULT_MODEL, defaultModelSettings, plainModelSettings, embeddingKey, isLocalModel, loadKey, localModelName, modelLabel, presetFor, type ModelDtype, type ModelSettings, type Pooling } from './models';
+import { listCachedModels, deleteCachedModel, formatModelSize } from './model-cache';
+import { h } from './dom';
+import { rankCorrelation, sharedTransitions, uniqueTransitions } from './compare';
 
 let worker: Worker | null = null;
-let vrpReady = false;
+// A model finished loading (READY); only a failed INIT or a NOT_READY error clears it
+let modelReady = false;
+// Ids of the requests the UI waits for; responses to any other id are stale and dropped
+let nextRequestId = 0;
+let initRequest = -1;
+let runRequest = -1; // SORT, INSERT, COMPARE or FIND_DUPLICATES
 let deckInstance: any = null;
 
 // Store current data state for interactive updates
 let currentMapData: {
     sortedIndices: number[];
     entities: string[];
-    coordinates: number[][];
+    coordinates: number[][]; // empty while the projection is running
     embeddings: number[][];
+    matrix: Float32Array | null; // n×n distances, row-major, computed in the worker; null for large lists
+    distance: DistanceFn;        // any pair, from the matrix or else from the vectors (see `resultDistance`)
+    metric: DistanceMetric;
+    sections: Section[] | null;
+    metadata: Record<string, string>[] | null; // non-embedded columns per entity (structured input)
+    query: QueryAnchor | null;
+    space: string;               // model and embedding settings the vectors come from
 } | null = null;
 
+// Identifies the vectors a model setting produces: a layout only carries over within one
+const vectorSpace = (modelName: string, model: ModelSettings) => `${modelName}\u0000${embeddingKey(model)}`;
+
 let sortStartTime = 0;
-let lastInitializedModel = '';
-let lastInitializedDevice = '';
+let lastInitialized = ''; // model settings and device the worker was last set up with
+let lastLoadKey = '';
+let pendingInit = '';
+// Model picked from disk; its files are sent along whenever it has to be loaded
+let localModel: { modelName: string; files: LocalModelFile[] } | null = null;
 let currentLoadingFile: string | null = null;
+let currentConstraints: SortConstraints = emptyConstraints();
+let pendingMetadata: Record<string, string>[] | null = null;
+// Entities the user placed by hand; they keep their rank when re-optimizing
+const lockedItems = new Set<number>();
+// Path length of the last solver result, the reference for manual edits
+let optimizedCost: number | null = null;
+// Settings of the run that produced `currentMapData`, saved with sessions
+let lastRunSettings: { modelName: string; device: string; model: ModelSettings; solver: SolverSettings; grouping: Grouping } | null = null;
+
+// Orders of a model comparison; the combined order is the current result
+let comparison: {
+    orders: { label: string; sortedIndices: number[]; embeddings: number[][] }[];
+    combined: number[];
+    coordinates: (number[][] | null)[]; // projection per model, filled as they come in
+    active: number;                      // model whose projection the map shows
+} | null = null;
+
+// Items picked on the map (lasso) or with shift-click in the list
+const selectedItems = new Set<number>();
+// Row that holds the list's keyboard focus, by entity index so it survives re-ordering
+let focusedItem: number | null = null;
+// Hover highlight shared by the list, the matrix and the map
+let mapHighlight: { points: number[]; segments: [number, number][] } = { points: [], segments: [] };
+// Layers of the last renderMap; hover, search and selection overlays are drawn on top
+let baseLayers: any[] = [];
+// Scaled position per entity as drawn on the map
+let mapPositions: number[][] = [];
+
+// Latest projection request; results of older requests are dropped
+let projectionRequest = -1;
+// Dimensions of the deck.gl view currently set up
+let viewDimensions = 2;
+
+// Near-duplicate groups awaiting review; `lines` is the input the groups were found in
+let duplicateReview: {
+    lines: string[];
+    entities: string[];
+    sources: number[];
+    groups: DuplicateGroup[];
+    similarities: number[][][]; // per group, between its members (positions in `indices`)
+    actions: DuplicateAction[];
+} | null = null;
+
+// Imported table; `fields` are the columns concatenated into the text that gets embedded
+let structuredInput: { data: StructuredData; fields: string[] } | null = null;
 
 const layerState = {
     points: true,
@@ -26,6 +107,7 @@ const layerState = {
     labels: true,
     scores: false,
     arrows: false,
+    hulls: false,
     radius: 4,
     lineWidth: 1,
     labelSize: 14,
@@ -33,6 +115,12 @@ const layerState = {
     deduplicate: true
 };
 
+// Segments folded in the outline view, keyed by the rank of their first item
+const collapsedSegments = new Set<number>();
+
+// Last geometry handed to deck.gl, reused for the SVG snapshot
+let mapGeometry: { points: any[]; paths: any[] } | null = null;
+
 const inputText = document.getElementById('input-text') as HTMLTextAreaElement;
 const sortBtn = document.getElementById('sort-btn') as HTMLButtonElement;
 const copyBtn = document.getElementById('copy-btn') as HTMLButtonElement;
@@ -40,10 +128,7 @@ const outputList = document.getElementById('output-list') as HTMLDivElement;
 const statusDiv = document.getElementById('status') as HTMLDivElement;
 const sortBtnText = document.getElementById('sort-btn-text') as HTMLSpanElement;
 const sortBtnSpinner = document.getElementById('sort-btn-spinner') as unknown as SVGElement;
-const matrixTableContainer = document.querySelector('.overflow-x-auto') as HTMLDivElement;
-if (matrixTableContainer) {
-    matrixTableContainer.classList.add('matrix-tbl-container');
-}
+const cancelBtn = document.getElementById('cancel-btn') as HTMLButtonElement;
 
 // Bind layer controls
 const bindLayerControl = (id: string, key: keyof typeof layerState) => {
@@ -67,16 +152,20 @@ const bindLayerControl = (id: string, key: keyof typeof layerState) => {
     }
 };
 
-bindLayerControl('layer-points', 'points');
-bindLayerControl('layer-lines', 'lines');
-bindLayerControl('layer-pt-labels', 'labels');
-bindLayerControl('layer-ln-scores', 'scores');
-bindLayerControl('layer-arrows', 'arrows');
-bindLayerControl('param-radius', 'radius');
-bindLayerControl('param-linewidth', 'lineWidth');
-bindLayerControl('param-labelsize', 'labelSize');
-bindLayerControl('param-arrowsize', 'arrowSize');
-bindLayerControl('param-dedupe', 'deduplicate');
+const layerControls: [string, keyof typeof layerState][] = [
+    ['layer-points', 'points'],
+    ['layer-lines', 'lines'],
+    ['layer-pt-labels', 'labels'],
+    ['layer-ln-scores', 'scores'],
+    ['layer-arrows', 'arrows'],
+    ['layer-hulls', 'hulls'],
+    ['param-radius', 'radius'],
+    ['param-linewidth', 'lineWidth'],
+    ['param-labelsize', 'labelSize'],
+    ['param-arrowsize', 'arrowSize'],
+    ['param-dedupe', 'deduplicate'],
+];
+layerControls.forEach(([id, key]) => bindLayerControl(id, key));
 
 const btnFullscreen = document.getElementById('btn-fullscreen');
 if (btnFullscreen) {
@@ -97,9 +186,10 @@ if (btnFullscreen) {
 if (copyBtn) {
     copyBtn.onclick = () => {
         if (!currentMapData) return;
-        const text = currentMapData.sortedIndices
-            .map(idx => currentMapData!.entities[idx])
-            .join('\n');
+        const { entities, sections, sortedIndices } = currentMapData;
+        const text = sections
+            ? sections.map(sec => `## ${sec.name}\n${sec.indices.map(idx => entities[idx]).join('\n')}`).join('\n\n')
+            : sortedIndices.map(idx => entities[idx]).join('\n');
         navigator.clipboard.writeText(text).then(() => {
             const originalHTML = copyBtn.innerHTML;
             copyBtn.innerHTML = 'Copied!';
@@ -108,8 +198,37 @@ if (copyBtn) {
     };
 }
 
+// Fill the sort button from the left like a progress bar
+const setButtonProgress = (pct: number) => {
+    sortBtn.classList.remove('bg-blue-600', 'hover:bg-blue-500');
+    sortBtn.style.background = `linear-gradient(90deg, #2563eb ${pct}%, #1e293b ${pct}%)`;
+}
+
+const resetButtonProgress = () => {
+    sortBtn.style.background = '';
+    sortBtn.classList.add('bg-blue-600', 'hover:bg-blue-500');
+}
+
+// Posts a request to the worker and returns its id
+const send = (request: WorkerRequest) => {
+    const id = ++nextRequestId;
+    worker?.postMessage(envelope(id, request));
+    return id;
+}
+
+// Returns the sort button to idle after a run ended
+const finishRun = (label = 'Execute Semantic Optimization') => {
+    sortBtn.disabled = false;
+    sortBtnSpinner.classList.add('hidden');
+    sortBtnText.textContent = label;
+    cancelBtn?.classList.add('hidden');
+    resetButtonProgress();
+}
+
 const setStatus = (msg: string) => {
-  statusDiv.innerHTML = `<span class="text-blue-500 opacity-50 shrink-0 select-none">></span> <span class="truncate">${msg}</span>`;
+  const prompt = h('span', 'text-blue-500 opacity-50 shrink-0 select-none', '>');
+  prompt.setAttribute('aria-hidden', 'true');
+  statusDiv.replaceChildren(prompt, ' ', h('span', 'truncate', msg));
 }
 
 const initialize = async () => {
@@ -124,25 +243,28 @@ const initialize = async () => {
     }
 
     worker = new Worker();
-    worker.onmessage = (e) => {
-        const { type, payload } = e.data;
+    worker.onmessage = (e: MessageEvent<ResponseMessage>) => {
+        const { v, id, type, payload } = e.data;
+        if (v !== PROTOCOL_VERSION) {
+            console.error(`Worker protocol ${v}, expected ${PROTOCOL_VERSION}`);
+            return;
+        }
         if (type === 'READY') {
-            vrpReady = true;
-            const modelInput = document.getElementById('model-name') as HTMLInputElement;
-            const gpuCheck = document.getElementById('param-webgpu') as HTMLInputElement;
-            lastInitializedModel = modelInput?.value || '';
-            lastInitializedDevice = gpuCheck?.checked ? 'webgpu' : 'wasm';
+            if (id !== initRequest) return;
+            initRequest = -1;
+            modelReady = true;
+            lastInitialized = pendingInit;
             
-            setStatus('Ready');
             sortBtn.disabled = false;
             sortBtnText.textContent = 'Execute Semantic Optimization';
             sortBtnSpinner.classList.add('hidden');
             // Reset button gradient
-            sortBtn.style.background = '';
-            sortBtn.classList.add('bg-blue-600', 'hover:bg-blue-500');
-            sortBtnSpinner.classList.add('hidden');
-            setStatus(`Progress: ${String(payload).toLowerCase()}`);
+            resetButtonProgress();
+            setStatus(`Ready: ${payload.modelName} // ${formatTimings(payload.timings)}`);
+            if (payload.reloaded) refreshModelCacheList();
         } else if (type === 'PROGRESS') {
+             // Model downloads of INIT, or of a compared model during COMPARE
+             if (id !== initRequest && id !== runRequest) return;
              const { status, file, progress } = payload;
              
              if (status === 'done') {
@@ -161,19 +283,60 @@ const initialize = async () => {
                      
                      sortBtnText.textContent = `Loading ${displayFile}... ${diffCmd}%`;
                      // Update gradient: Darker blue filling up from left
-                     sortBtn.classList.remove('bg-blue-600', 'hover:bg-blue-500');
-                     sortBtn.style.background = `linear-gradient(90deg, #2563eb ${pct}%, #1e293b ${pct}%)`;
+                     setButtonProgress(pct);
                  }
              }
+        } else if (type === 'EMBED_PROGRESS') {
+            if (id !== runRequest) return;
+            const { done, total } = payload;
+            const pct = total > 0 ? Math.round((done / total) * 100) : 100;
+            sortBtnText.textContent = `Embedding ${done}/${total}... ${pct}%`;
+            setButtonProgress(pct);
+        } else if (type === 'STAGE') {
+            if (id === runRequest || id === initRequest) setStatus(payload.message);
         } else if (type === 'ERROR') {
             console.error(payload);
-            setStatus(`Error: ${payload}`);
-            sortBtn.disabled = false;
-            sortBtnSpinner.classList.add('hidden');
-            sortBtnText.textContent = vrpReady ? 'Execute Semantic Optimization' : 'Load Model';
-            vrpReady = false; // Allow retry
+            if (id === projectionRequest) {
+                setMapStatus(`Projection failed: ${payload.message}`);
+                return;
+            }
+            if (id !== initRequest && id !== runRequest) {
+                // Cache errors answer a fire-and-forget request; anything else is stale
+                if (payload.code === 'CACHE_FAILED') setStatus(`Error: ${payload.message}`);
+                return;
+            }
+            // Only a failed load or a worker without a model means the model has to be loaded (again)
+            if (id === initRequest || payload.code === 'NOT_READY') {
+                modelReady = false;
+                lastLoadKey = '';
+            }
+            initRequest = -1;
+            runRequest = -1;
+            setStatus(`Error: ${payload.message}`);
+            finishRun(modelReady ? 'Execute Semantic Optimization' : 'Load Model');
         } else if (type === 'SORTED') {
+            if (id !== runRequest) return;
+            runRequest = -1;
             handleSorted(payload);
+        } else if (type === 'COMPARED') {
+            if (id !== runRequest) return;
+            runRequest = -1;
+            handleCompared(payload);
+        } else if (type === 'PROJECTED') {
+            if (id !== projectionRequest) return;
+            handleProjected(payload.coordinates);
+        } else if (type === 'DUPLICATES') {
+            if (id !== runRequest) return;
+            runRequest = -1;
+            handleDuplicates(payload.groups, payload.similarities);
+        } else if (type === 'CANCELLED') {
+            if (id !== runRequest) return;
+            runRequest = -1;
+            setStatus('Cancelled');
+            finishRun();
+        } else if (type === 'CACHE_CLEARED') {
+            const scope = payload.modelName ? payload.modelName : 'all models';
+            setStatus(`Cache cleared: ${payload.removed} embeddings (${scope})`);
         }
     };
     
@@ -195,79 +358,583 @@ function initDeck() {
             id: 'ortho', 
             controller: true
         }),
+        getTooltip: ({ object }: any) => {
+            if (!object || object.index === undefined || !currentMapData) return null;
+            const { sortedIndices, entities } = currentMapData;
+            const idx = object.index;
+            const rank = sortedIndices.indexOf(idx);
+            const meta = currentMapData.metadata?.[idx];
+            const neighbour = (other: number | undefined, arrow: string) =>
+                other !== undefined && sameTour(idx, other) ? [`${arrow} ${getSimilarity(idx, other).toFixed(3)}  ${entities[other]}`] : [];
+            const lines = [
+                entities[idx],
+                `#${rank + 1} of ${sortedIndices.length}`,
+                ...neighbour(sortedIndices[rank - 1], '←'),
+                ...neighbour(sortedIndices[rank + 1], '→'),
+                ...(meta ? Object.entries(meta).filter(([, v]) => v).map(([k, v]) => `${k}: ${v}`) : [])
+            ];
+            return { text: lines.join('\n'), style: { backgroundColor: '#0f172a', color: '#cbd5e1', fontSize: '12px', border: '1px solid #1e293b' } };
+        },
         layers: []
     });
 }
 
-const runSort = () => {
-  if (!worker) return;
+function readModelSettings(): ModelSettings {
+  const value = (id: string) => (document.getElementById(id) as HTMLInputElement | HTMLSelectElement | null)?.value;
+  const modelName = value('model-name')?.trim() || DEFAULT_MODEL;
+  const defaults = defaultModelSettings(modelName);
+  return {
+    modelName,
+    dtype: (value('param-dtype') || defaults.dtype) as ModelDtype,
+    pooling: (value('param-pooling') || defaults.pooling) as Pooling,
+    normalize: true,
+    queryPrompt: value('param-query-prompt') ?? defaults.queryPrompt,
+    documentPrompt: value('param-document-prompt') ?? defaults.documentPrompt
+  };
+}
+
+function applyModelSettings(settings: ModelSettings) {
+  setInputValue('model-name', settings.modelName);
+  setInputValue('model-preset', presetFor(settings.modelName) ? settings.modelName : '');
+  setInputValue('param-dtype', settings.dtype);
+  setInputValue('param-pooling', settings.pooling);
+  setInputValue('param-query-prompt', settings.queryPrompt);
+  setInputValue('param-document-prompt', settings.documentPrompt);
+}
 
-  const modelInput = document.getElementById('model-name') as HTMLInputElement;
+// Returns the selected model, or null after starting to (re)load it
+const ensureModel = () => {
+  if (!worker) return null;
   const gpuCheck = document.getElementById('param-webgpu') as HTMLInputElement;
-  const modelName = modelInput?.value || 'onnx-community/embeddinggemma-300m-ONNX';
+  const model = readModelSettings();
+  const { modelName } = model;
   const device = gpuCheck?.checked ? 'webgpu' : 'wasm';
+  const key = JSON.stringify([model, device]);
 
-  // Check if we need to re-init
-  if (!vrpReady || modelName !== lastInitializedModel || device !== lastInitializedDevice) {
-      vrpReady = false;
+  // Check if we need to re-init; the worker only loads again if the model, precision or device changed
+  if (!modelReady || key !== lastInitialized) {
+      const load = loadKey(model, device);
+      const files = isLocalModel(modelName) && localModel?.modelName === modelName && load !== lastLoadKey ? localModel.files : undefined;
+      modelReady = false;
       sortBtn.disabled = true;
       sortBtnText.textContent = 'Loading...';
       sortBtnSpinner.classList.remove('hidden');
-      setStatus('Loading model...');
-      worker.postMessage({ type: 'INIT', payload: { modelName, device } });
-      return;
+      setStatus(load === lastLoadKey ? 'Applying model settings...' : 'Loading model...');
+      pendingInit = key;
+      lastLoadKey = load;
+      initRequest = send({ type: 'INIT', payload: { model, device, files } });
+      return null;
   }
+  return { modelName, device, model };
+}
+
+// Puts the UI into the busy state of a sort, insert or re-optimize run
+const startRun = (label: string) => {
+  sortBtn.disabled = true;
+  sortBtnSpinner.classList.remove('hidden');
+  sortBtnText.textContent = label;
+  cancelBtn?.classList.remove('hidden');
+  setStatus('Processing...');
+  sortStartTime = performance.now();
+}
+
+const readBatchSize = () => {
+  const batchInput = document.getElementById('param-batch-size') as HTMLInputElement;
+  return Math.max(1, parseInt(batchInput?.value || '32', 10) || 32);
+}
+
+// Non-embedded columns of the table rows the entities came from
+const structuredMetadata = (sources: number[]) => {
+  if (!structuredInput) return null;
+  const { data, fields } = structuredInput;
+  const extra = data.columns.filter(c => !fields.includes(c));
+  return sources.map(src => Object.fromEntries(extra.map(c => [c, data.rows[src]?.[c] ?? ''])));
+}
+
+const runSort = (skipDuplicateReview = false) => {
+  if (!worker) return;
+  const model = ensureModel();
+  if (!model) return;
+  const { modelName, device, model: modelSettings } = model;
 
   const text = inputText.value.trim();
   if (!text) return;
-  let entities = text.split('\n').map(l => l.trim()).filter(l => l.length > 0);
-  if (layerState.deduplicate) {
-    const originalCount = entities.length;
-    entities = [...new Set(entities)];
-    if (entities.length < originalCount) {
-        console.log(`Deduplicated: ${originalCount} -> ${entities.length}`);
+  // Not trimmed: in table mode line i is row i
+  const lines = inputText.value.split('\n');
+  const { entities, sources, constraints, errors } = parseInput(lines, layerState.deduplicate);
+  if (errors.length > 0) {
+    setStatus(`Error: ${errors.join(', ')}`);
+    return;
+  }
+  if (entities.length < 2) {
+    setStatus('Error: insufficient nodes');
+    return;
+  }
+  const grouping = readGrouping();
+  const solver = readSolverSettings();
+  if (solver.closed && constraints.end !== null) {
+    setStatus('Error: @end cannot be combined with a round trip');
+    return;
+  }
+  if (grouping.mode !== 'none' && (constraints.start !== null || constraints.end !== null || constraints.pinned.length > 0)) {
+    setStatus('Error: @start/@end/@N markers are not supported when grouping into sections');
+    return;
+  }
+  const batchSize = readBatchSize();
+  const metricSelect = document.getElementById('param-metric') as HTMLSelectElement;
+  const metric = (metricSelect?.value || 'cosine') as DistanceMetric;
+  const nearDupes = document.getElementById('param-near-dupes') as HTMLInputElement;
+  if (nearDupes?.checked && !skipDuplicateReview) {
+    const thresholdInput = document.getElementById('param-dupe-threshold') as HTMLInputElement;
+    const threshold = Math.min(1, Math.max(0, parseFloat(thresholdInput?.value || '0.92') || 0.92));
+    startRun('Checking duplicates...');
+    duplicateReview = { lines, entities, sources, groups: [], similarities: [], actions: [] };
+    runRequest = send({ type: 'FIND_DUPLICATES', payload: { entities, batchSize, metric, threshold } });
+    return;
+  }
+  startRun('Optimizing...');
+  lockedItems.clear();
+  currentConstraints = constraints;
+  pendingMetadata = structuredMetadata(sources);
+  lastRunSettings = { modelName, device, model: modelSettings, solver, grouping };
+  runRequest = send({ type: 'SORT', payload: { entities, constraints, batchSize, metric, grouping, solver, query: readQuery() } });
+}
+
+function readSolverSettings(): SolverSettings {
+  const defaults = defaultSolverSettings();
+  const num = (id: string, fallback: number) => {
+    const v = parseFloat((document.getElementById(id) as HTMLInputElement)?.value ?? '');
+    return Number.isFinite(v) && v >= 0 ? v : fallback;
+  };
+  const seedValue = (document.getElementById('param-seed') as HTMLInputElement)?.value.trim();
+  return {
+    maxTime: num('param-max-time', defaults.maxTime),
+    maxGenerations: Math.floor(num('param-max-generations', defaults.maxGenerations)),
+    variationSample: Math.floor(num('param-variation-sample', defaults.variationSample)),
+    variationCv: num('param-variation-cv', defaults.variationCv),
+    seed: seedValue ? (parseInt(seedValue, 10) || 0) : null,
+    closed: (document.getElementById('param-closed') as HTMLInputElement)?.checked ?? defaults.closed,
+    path: ((document.getElementById('param-solver-path') as HTMLSelectElement)?.value ?? defaults.path) as SolverSettings['path'],
+    polishWindow: Math.floor(num('param-polish-window', defaults.polishWindow ?? 0))
+  };
+}
+
+// Inserts lines that are not in the current result at their cheapest positions
+const runInsert = () => {
+  if (!worker || !currentMapData) {
+    setStatus('Error: insertion needs an existing result, run a sort first');
+    return;
+  }
+  if (comparison) {
+    setStatus('Error: insertion is not supported for a model comparison, run a sort first');
+    return;
+  }
+  const model = ensureModel();
+  if (!model) return;
+  const previousModel = lastRunSettings?.model ?? null;
+  if (lastRunSettings && (lastRunSettings.modelName !== model.modelName || (previousModel && embeddingKey(previousModel) !== embeddingKey(model.model)))) {
+    setStatus('Error: the model or its settings changed since the last sort, run a full sort instead');
+    return;
+  }
+  const { entities } = parseInput(inputText.value.split('\n'), true);
+  const existing = new Set(currentMapData.entities);
+  const added = entities.filter(e => !existing.has(e));
+  if (added.length === 0) {
+    setStatus('No new lines to insert');
+    return;
+  }
+  const windowInput = document.getElementById('param-insert-window') as HTMLInputElement;
+  const insertWindow = Math.max(0, parseInt(windowInput?.value || '0', 10) || 0);
+  const { sortedIndices, sections, embeddings, coordinates, metadata, metric } = currentMapData;
+
+  startRun('Inserting...');
+  pendingMetadata = metadata ? [...metadata, ...added.map(() => ({}))] : null;
+  runRequest = send({
+    type: 'INSERT',
+    payload: {
+      entities: currentMapData.entities,
+      embeddings,
+      coordinates,
+      tours: sections ? sections.map(sec => sec.indices) : [sortedIndices],
+      added,
+      constraints: currentConstraints,
+      locked: [...lockedItems],
+      metric,
+      batchSize: readBatchSize(),
+      window: insertWindow
     }
+  });
+}
+
+// Sorts the selected items on their own, as a new result
+const runSortSelection = () => {
+  if (!worker || !currentMapData) return;
+  if (selectedItems.size < 2) {
+    setStatus('Error: select at least two items');
+    return;
+  }
+  const model = ensureModel();
+  if (!model) return;
+  const { sortedIndices, entities, metadata, metric } = currentMapData;
+  const picked = sortedIndices.filter(idx => selectedItems.has(idx));
+  const solver = readSolverSettings();
+
+  startRun('Sorting selection...');
+  lockedItems.clear();
+  currentConstraints = emptyConstraints();
+  pendingMetadata = metadata ? picked.map(idx => metadata[idx]) : null;
+  lastRunSettings = { ...model, solver, grouping: noGrouping() };
+  runRequest = send({ type: 'SORT', payload: { entities: picked.map(idx => entities[idx]), constraints: currentConstraints, batchSize: readBatchSize(), metric, grouping: noGrouping(), solver, query: readQuery() } });
+}
+
+// Sorts the list with the loaded model and every model under "Compare with", then on
+// their averaged distances; the combined order becomes the result
+const runCompare = () => {
+  if (!worker) return;
+  const model = ensureModel();
+  if (!model) return;
+  const names = (document.getElementById('compare-models') as HTMLTextAreaElement)?.value.split('\n').map(s => s.trim()).filter(Boolean) ?? [];
+  const others = [...new Set(names)].filter(name => name !== model.modelName).map(name => defaultModelSettings(name));
+  if (others.length === 0) {
+    setStatus('Error: enter at least one other model id under Compare with');
+    return;
+  }
+  // The comparison solves one plain path per model; rather than drop these silently, ask to clear them
+  if (readGrouping().mode !== 'none') {
+    setStatus('Error: model comparison does not group into sections, set grouping to none');
+    return;
+  }
+  if (readQuery()) {
+    setStatus('Error: model comparison does not take a query, clear the query field');
+    return;
+  }
+  const { entities, sources, constraints, errors } = parseInput(inputText.value.split('\n'), layerState.deduplicate);
+  if (errors.length > 0) {
+    setStatus(`Error: ${errors.join(', ')}`);
+    return;
   }
   if (entities.length < 2) {
     setStatus('Error: insufficient nodes');
     return;
   }
-  sortBtn.disabled = true;
-  sortBtnSpinner.classList.remove('hidden');
-  sortBtnText.textContent = 'Optimizing...';
-  setStatus('Processing...');
-  sortStartTime = performance.now();
-  worker.postMessage({ type: 'SORT', payload: entities });
+  // Every model gets its own n×n matrix plus the averaged one; the large-list path has none
+  if (entities.length > LARGE_LIST_SIZE) {
+    setStatus(`Error: model comparison is limited to ${LARGE_LIST_SIZE} items, this list has ${entities.length}`);
+    return;
+  }
+  const solver = readSolverSettings();
+  if (solver.closed && constraints.end !== null) {
+    setStatus('Error: @end cannot be combined with a round trip');
+    return;
+  }
+  const metric = ((document.getElementById('param-metric') as HTMLSelectElement)?.value || 'cosine') as DistanceMetric;
+
+  startRun('Comparing models...');
+  lockedItems.clear();
+  currentConstraints = constraints;
+  pendingMetadata = structuredMetadata(sources);
+  lastRunSettings = { ...model, solver, grouping: noGrouping() };
+  runRequest = send({
+    type: 'COMPARE',
+    payload: { entities, models: [model.model, ...others], device: model.device, constraints, batchSize: readBatchSize(), metric, solver }
+  });
 }
 
-function handleSorted(payload: any) {
-    const { sortedIndices, entities, embeddings, coordinates } = payload;
+// Solves again with every locked item pinned at its current rank
+const runReoptimize = () => {
+  if (!worker || !currentMapData) return;
+  if (currentMapData.sections) {
+    setStatus('Error: re-optimizing around locks is not supported for sectioned results');
+    return;
+  }
+  if (comparison) {
+    setStatus('Error: re-optimizing is not supported for a model comparison, run a sort first');
+    return;
+  }
+  const model = ensureModel();
+  if (!model) return;
+  const { sortedIndices, entities, metadata, metric, query } = currentMapData;
+  const anchored = (idx: number) => idx === currentConstraints.start || idx === currentConstraints.end;
+  const locked = sortedIndices
+    .map((idx, rank) => ({ index: idx, position: rank + 1 }))
+    .filter(p => lockedItems.has(p.index) && !anchored(p.index));
+  const constraints: SortConstraints = {
+    start: currentConstraints.start,
+    end: currentConstraints.end,
+    pinned: [...currentConstraints.pinned.filter(p => !lockedItems.has(p.index)), ...locked]
+  };
+  const solver = readSolverSettings();
+  if (solver.closed && constraints.end !== null) {
+    setStatus('Error: @end cannot be combined with a round trip');
+    return;
+  }
+
+  startRun('Re-optimizing...');
+  currentConstraints = constraints;
+  pendingMetadata = metadata;
+  lastRunSettings = { ...model, solver, grouping: noGrouping() };
+  const anchor = query ? { text: query.text, mode: query.mode } : null;
+  runRequest = send({ type: 'SORT', payload: { entities, constraints, batchSize: readBatchSize(), metric, grouping: noGrouping(), solver, query: anchor } });
+}
+
+function readQuery(): { text: string; mode: QueryMode } | null {
+  const text = (document.getElementById('query-text') as HTMLInputElement)?.value.trim();
+  const modeSelect = document.getElementById('query-mode') as HTMLSelectElement;
+  return text ? { text, mode: (modeSelect?.value || 'closest') as QueryMode } : null;
+}
+
+function readGrouping(): Grouping {
+  const modeSelect = document.getElementById('param-grouping') as HTMLSelectElement;
+  const valueInput = document.getElementById('param-group-value') as HTMLInputElement;
+  const mode = (modeSelect?.value || 'none') as GroupingMode;
+  const value = Math.max(1, parseInt(valueInput?.value || '1', 10) || 1);
+  return mode === 'none' ? noGrouping() : { mode, count: value, maxSize: value };
+}
+
+function handleSorted(payload: SortedPayload) {
+    const { sortedIndices, entities, embeddings, coordinates, reused, matrix, metric, sections, sectionTours, inserted, query, timings, solverPath } = payload;
     const durationMs = performance.now() - sortStartTime;
     const perEntityMs = durationMs / entities.length;
-    currentMapData = { sortedIndices, entities, embeddings, coordinates };
-    renderResult(sortedIndices, entities, embeddings);
-    renderMatrix(entities, embeddings);
-    renderMap(sortedIndices, entities, coordinates);
-    setStatus(`Complete: ${entities.length} nodes // Total: ${durationMs.toFixed(0)}ms // Unit: ${perEntityMs.toFixed(1)}ms/node`);
-    sortBtn.disabled = false;
-    sortBtnSpinner.classList.add('hidden');
-    sortBtnText.textContent = 'Execute Semantic Optimization';
+    // After an insertion the sections keep their names, only their members change
+    const previousSections = currentMapData?.sections;
+    const nextSections = sections ?? (sectionTours && previousSections
+        ? previousSections.map((sec, k) => ({ name: sec.name, indices: sectionTours[k] }))
+        : null);
+    // A new order of the same entities from the same model and embedding settings keeps the
+    // layout; anything else is projected again.
+    // After a comparison that only holds while the map shows the loaded model's projection.
+    const previous = currentMapData;
+    const sameSpace = !comparison || comparison.active === 0;
+    comparison = null;
+    renderComparison();
+    const space = lastRunSettings ? vectorSpace(lastRunSettings.modelName, lastRunSettings.model) : '';
+    const sameEntities = sameSpace && !!previous && previous.space === space
+        && previous.entities.length === entities.length && previous.entities.every((e, i) => e === entities[i]);
+    const layout = coordinates ?? (sameEntities ? previous!.coordinates : []);
+    const distance = resultDistance(matrix, embeddings, metric, sortedIndices, payload.transitions);
+    currentMapData = { sortedIndices, entities, embeddings, coordinates: layout, matrix, distance, metric, sections: nextSections, metadata: pendingMetadata, query: query ?? null, space };
+    optimizedCost = currentPathCost();
+    collapsedSegments.clear();
+    selectedItems.clear();
+    mapHighlight = { points: [], segments: [] };
+    renderAll();
+    if (layout.length !== entities.length) requestProjection();
+    if (inserted !== undefined) {
+        setStatus(`Inserted: ${inserted} new nodes into ${entities.length - inserted} // Total: ${durationMs.toFixed(0)}ms // ${formatTimings(timings)}`);
+    } else {
+        setStatus(`Complete: ${entities.length} nodes // Total: ${durationMs.toFixed(0)}ms // Unit: ${perEntityMs.toFixed(1)}ms/node // Cached: ${reused ?? 0}/${entities.length} // Path: ${solverPath === 'heuristic' ? 'kNN + 2-opt' : 'VRP'} // ${formatTimings(timings)}`);
+    }
+    finishRun();
+}
+
+function handleCompared({ entities, metric, orders, combined, timings }: ComparedPayload) {
+    const durationMs = performance.now() - sortStartTime;
+    comparison = {
+        orders: orders.map(o => ({ label: modelLabel(o.model), sortedIndices: o.sortedIndices, embeddings: o.embeddings })),
+        combined: combined.sortedIndices,
+        coordinates: orders.map(() => null),
+        active: 0
+    };
+    // The map starts with the first model's projection
+    currentMapData = {
+        sortedIndices: combined.sortedIndices, entities, embeddings: orders[0].embeddings, coordinates: [],
+        matrix: combined.matrix, distance: matrixDistances(combined.matrix, entities.length), metric, sections: null, metadata: pendingMetadata, query: null,
+        space: lastRunSettings ? vectorSpace(lastRunSettings.modelName, lastRunSettings.model) : ''
+    };
+    optimizedCost = currentPathCost();
+    collapsedSegments.clear();
+    selectedItems.clear();
+    mapHighlight = { points: [], segments: [] };
+    renderAll();
+    renderComparison();
+    requestProjection();
+    setStatus(`Compared ${orders.length} models on ${entities.length} nodes // Total: ${durationMs.toFixed(0)}ms // ${formatTimings(timings)}`);
+    finishRun();
+}
+
+// Side by side orders of a comparison with their pairwise agreement
+function renderComparison() {
+    const section = document.getElementById('compare-section');
+    const summary = document.getElementById('compare-summary');
+    const grid = document.getElementById('compare-columns');
+    section?.classList.toggle('hidden', !comparison);
+    document.getElementById('compare-projection-field')?.classList.toggle('hidden', !comparison);
+    if (!comparison || !currentMapData || !summary || !grid) return;
+    const { entities } = currentMapData;
+    const columns = [
+        ...comparison.orders.map(o => ({ label: o.label, order: o.sortedIndices })),
+        { label: 'Combined', order: comparison.combined }
+    ];
+
+    if (compareProjection) {
+        compareProjection.replaceChildren(...comparison.orders.map((o, k) => new Option(o.label, String(k))));
+        compareProjection.value = String(comparison.active);
+    }
+
+    const table = document.createElement('table');
+    table.className = 'text-[12px] font-mono text-slate-400 border-collapse';
+    const head = document.createElement('tr');
+    head.append(h('th', 'px-3 py-1'), ...columns.map(c => h('th', 'px-3 py-1 text-left text-slate-500 font-bold uppercase tracking-wider', c.label)));
+    table.appendChild(head);
+    columns.forEach((a, i) => {
+        const row = document.createElement('tr');
+        row.append(h('th', 'px-3 py-1 text-left text-slate-500 font-bold uppercase tracking-wider', a.label));
+        columns.forEach((b, j) => {
+            if (i === j) {
+                row.append(h('td', 'px-3 py-1 border border-slate-800 text-slate-700', '—'));
+                return;
+            }
+            const { rho, reversed } = rankCorrelation(a.order, b.order);
+            const shared = sharedTransitions(a.order, b.order);
+            const td = h('td', 'px-3 py-1 border border-slate-800 whitespace-nowrap', `ρ ${rho.toFixed(2)} · ${Math.round(shared * 100)}% shared`);
+            if (reversed) td.title = 'Compared with one order read backwards';
+            row.append(td);
+        });
+        table.appendChild(row);
+    });
+    summary.replaceChildren(table);
+
+    grid.style.gridTemplateColumns = `repeat(${columns.length}, minmax(0, 1fr))`;
+    grid.replaceChildren(...columns.map((column, c) => {
+        const unique = new Set(uniqueTransitions(column.order, columns.filter((_, k) => k !== c).map(o => o.order)));
+        const wrap = document.createElement('div');
+        wrap.className = 'border border-slate-800 rounded bg-slate-950/30 min-w-0';
+        const header = document.createElement('div');
+        header.className = 'flex items-center justify-between gap-2 px-3 py-2 border-b border-slate-800 text-[11px] font-mono uppercase tracking-wider';
+        header.append(
+            h('span', 'text-slate-400 font-bold truncate', column.label),
+            h('span', 'text-amber-400 shrink-0', `${unique.size} unique`)
+        );
+        const list = document.createElement('ol');
+        list.className = 'max-h-[480px] overflow-y-auto text-[12px] font-mono';
+        column.order.forEach((idx, rank) => {
+            const item = document.createElement('li');
+            item.className = 'flex gap-2 px-3 py-0.5 cursor-pointer hover:bg-slate-900 text-slate-300';
+            // The transition from this item to the next one appears in no other order
+            if (unique.has(rank)) {
+                item.classList.add('border-b', 'border-amber-500/60');
+                item.title = 'The step to the next item appears in no other order';
+            }
+            item.append(h('span', 'w-10 shrink-0 text-right text-slate-600', String(rank + 1)), h('span', 'truncate', entities[idx]));
+            item.onmouseenter = () => highlightItem(idx);
+            item.onmouseleave = () => highlightItem(null);
+            item.onclick = () => flyToEntity(idx);
+            list.appendChild(item);
+        });
+        wrap.append(header, list);
+        return wrap;
+    }));
+}
+
+function handleDuplicates(groups: DuplicateGroup[], similarities: number[][][]) {
+    finishRun();
+    if (!duplicateReview) return;
+    if (groups.length === 0) {
+        duplicateReview = null;
+        runSort(true);
+        return;
+    }
+    duplicateReview = { ...duplicateReview, groups, similarities, actions: groups.map(() => 'keep') };
+    renderDuplicatePanel();
+    setStatus(`Review: ${groups.length} near-duplicate groups (${groups.reduce((sum, g) => sum + g.indices.length, 0)} items)`);
+}
+
+function readProjectionSettings(): ProjectionSettings {
+    const defaults = defaultProjectionSettings();
+    const num = (id: string, fallback: number) => {
+        const v = parseFloat((document.getElementById(id) as HTMLInputElement)?.value ?? '');
+        return Number.isFinite(v) && v >= 0 ? v : fallback;
+    };
+    const seedValue = (document.getElementById('param-proj-seed') as HTMLInputElement)?.value.trim();
+    return {
+        method: ((document.getElementById('param-proj-method') as HTMLSelectElement)?.value || defaults.method) as ProjectionMethod,
+        dimensions: (document.getElementById('param-proj-dims') as HTMLSelectElement)?.value === '3' ? 3 : 2,
+        nNeighbors: Math.max(2, Math.round(num('param-proj-neighbors', defaults.nNeighbors))),
+        minDist: num('param-proj-min-dist', defaults.minDist),
+        spread: Math.max(0.01, num('param-proj-spread', defaults.spread)),
+        seed: seedValue ? (parseInt(seedValue, 10) || 0) : null
+    };
+}
+
+// Projects the current embeddings for the map; the list is already shown
+function requestProjection() {
+    if (!worker || !currentMapData) return;
+    if (currentMapData.embeddings.length !== currentMapData.entities.length) {
+        setStatus('Error: this result has no embeddings to project, run the sort again');
+        return;
+    }
+    const settings = readProjectionSettings();
+    setMapStatus(`Projecting with ${settings.method.toUpperCase()} (${settings.dimensions}D)...`);
+    projectionRequest = send({ type: 'PROJECT', payload: { embeddings: currentMapData.embeddings, settings } });
+}
+
+function handleProjected(coordinates: number[][]) {
+    if (!currentMapData) return;
+    setMapStatus('');
+    if (comparison) comparison.coordinates[comparison.active] = coordinates;
+    currentMapData.coordinates = coordinates;
+    renderMap(currentMapData.sortedIndices, currentMapData.entities, coordinates, true);
+}
+
+function setMapStatus(text: string) {
+    const el = document.getElementById('map-status');
+    if (!el) return;
+    el.textContent = text;
+    el.classList.toggle('hidden', !text);
+}
+
+// Similarity thresholds of the view are on the scale of the result's metric. When a
+// result with another metric comes in they move along (see `convertSimilarity`), so
+// they keep meaning the same closeness. 0 stays 0, it switches a filter off.
+let thresholdMetric: DistanceMetric = 'cosine';
+
+function syncThresholds(metric: DistanceMetric) {
+    if (metric === thresholdMetric) return;
+    const segmentMode = (document.getElementById('param-segment-mode') as HTMLSelectElement | null)?.value ?? 'threshold';
+    const ids = ['sim-threshold', 'query-threshold', ...(segmentMode === 'threshold' ? ['param-segment-value'] : [])];
+    ids.forEach(id => {
+        const input = document.getElementById(id) as HTMLInputElement | null;
+        const value = parseFloat(input?.value ?? '');
+        if (!input || !(value > 0)) return;
+        input.value = (Math.round(convertSimilarity(value, thresholdMetric, metric) * 100) / 100).toFixed(2);
+    });
+    thresholdMetric = metric;
+    const simLabel = document.getElementById('sim-threshold-val');
+    if (simLabel && simThresholdInput) simLabel.textContent = parseFloat(simThresholdInput.value).toFixed(2);
+    heatmap?.setThreshold(parseFloat(simThresholdInput?.value ?? '0.8'));
+    const queryLabel = document.getElementById('val-query-threshold');
+    if (queryLabel) queryLabel.textContent = readQueryThreshold().toFixed(2);
+}
+
+function renderAll() {
+    if (!currentMapData) return;
+    syncThresholds(currentMapData.metric);
+    const { sortedIndices, entities, coordinates } = currentMapData;
+    renderResult(sortedIndices, entities);
+    renderMatrix();
+    renderMap(sortedIndices, entities, coordinates, true);
+    renderQuality();
+    renderSelectionBar();
+}
+
+// Normalizes the projection into the [-100, 100] square (or cube, in 3D) the map is laid out in
+function scaleCoordinates(coordinates: number[][]) {
+    const dims = coordinates[0]?.length ?? 2;
+    const min = new Array(dims).fill(Infinity), max = new Array(dims).fill(-Infinity);
+    coordinates.forEach(c => c.forEach((x, k) => {
+        min[k] = Math.min(min[k], x); max[k] = Math.max(max[k], x);
+    }));
+    const scale = 200 / (Math.max(...max.map((m, k) => m - min[k])) || 1);
+    return coordinates.map(c => c.map((x, k) => (x - (min[k] + max[k])/2) * scale));
 }
 
 function flyToEntity(targetIndex: number) {
     if (!currentMapData || !deckInstance) return;
-    const { coordinates } = currentMapData;
-    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
-    coordinates.forEach(c => {
-        minX = Math.min(minX, c[0]); maxX = Math.max(maxX, c[0]);
-        minY = Math.min(minY, c[1]); maxY = Math.max(maxY, c[1]);
-    });
-    const scale = 200 / Math.max(maxX - minX || 1, maxY - minY || 1);
-    const c = coordinates[targetIndex];
+    const c = scaleCoordinates(currentMapData.coordinates)[targetIndex];
     if (c) {
         deckInstance.setProps({
             initialViewState: {
-                target: [(c[0] - (minX + maxX)/2) * scale, (c[1] - (minY + maxY)/2) * scale, 0],
+                target: [c[0], c[1], c[2] ?? 0],
                 zoom: 3,
                 transitionDuration: 800
             }
@@ -275,19 +942,27 @@ function flyToEntity(targetIndex: number) {
     }
 }
 
-function renderMap(sortedIndices: number[], entities: string[], coordinates: number[][]) {
+// Layer toggles and edits keep the camera; only new data (`resetView`) recenters it
+function renderMap(sortedIndices: number[], entities: string[], coordinates: number[][], resetView = false) {
     if (!deckInstance) return;
-    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
-    coordinates.forEach(c => {
-        minX = Math.min(minX, c[0]); maxX = Math.max(maxX, c[0]);
-        minY = Math.min(minY, c[1]); maxY = Math.max(maxY, c[1]);
-    });
-    const scale = 200 / Math.max(maxX - minX || 1, maxY - minY || 1);
-    const scaledCoords = coordinates.map(c => [
-        (c[0] - (minX + maxX)/2) * scale,
-        (c[1] - (minY + maxY)/2) * scale
-    ]);
-    const pointsData = scaledCoords.map((c, i) => ({ position: c, text: entities[i], index: i }));
+    if (coordinates.length !== entities.length) {
+        // Projection still running
+        mapGeometry = null;
+        baseLayers = [];
+        mapPositions = [];
+        deckInstance.setProps({ layers: [] });
+        return;
+    }
+    const dims = coordinates[0]?.length ?? 2;
+    if (dims !== viewDimensions) setMapView(dims);
+    else if (resetView) deckInstance.setProps({ initialViewState: defaultViewState(dims) });
+    const scaledCoords = scaleCoordinates(coordinates);
+    const sectionOf = getSectionLookup();
+    const colorOf = (idx: number) => {
+        const k = sectionOf.get(idx);
+        return k === undefined ? null : hslToRgb(sectionHue(k), 70, 55);
+    };
+    const pointsData = scaledCoords.map((c, i) => ({ position: c, text: entities[i], index: i, color: colorOf(i) || [37, 99, 235] }));
 
     const pathData = [];
     const scoreData = [];
@@ -295,14 +970,18 @@ function renderMap(sortedIndices: number[], entities: string[], coordinates: num
 
     for (let i = 0; i < sortedIndices.length - 1; i++) {
         const f = sortedIndices[i], t = sortedIndices[i+1];
+        // Sections are separate tours, don't connect them
+        if (sectionOf.size > 0 && sectionOf.get(f) !== sectionOf.get(t)) continue;
         const p1 = scaledCoords[f], p2 = scaledCoords[t];
-        pathData.push({ path: [p1, p2] });
-        if (currentMapData?.embeddings) {
-            const sim = (1 - getDistance(currentMapData.embeddings[f], currentMapData.embeddings[t])).toFixed(2);
-            scoreData.push({ position: [(p1[0]+p2[0])/2, (p1[1]+p2[1])/2], text: sim });
+        const sectionColor = colorOf(f);
+        pathData.push({ path: [p1, p2], color: sectionColor ? [...sectionColor, 140] : [30, 41, 59] });
+        if (currentMapData) {
+            const sim = getSimilarity(f, t).toFixed(2);
+            scoreData.push({ position: p1.map((x, k) => (x + p2[k]) / 2), text: sim });
         }
         const dx = p2[0]-p1[0], dy = p2[1]-p1[1], len = Math.sqrt(dx*dx+dy*dy);
-        if (len > 0.1) {
+        // Arrow heads are drawn in the plane, so only in 2D
+        if (len > 0.1 && dims === 2) {
             const ax = p1[0]+dx*0.6, ay = p1[1]+dy*0.6;
             const ux = dx/len, uy = dy/len, vx = -uy, vy = ux;
             const sz = layerState.arrowSize;
@@ -311,36 +990,353 @@ function renderMap(sortedIndices: number[], entities: string[], coordinates: num
         }
     }
 
+    mapGeometry = { points: pointsData, paths: pathData };
+
+    // Segment regions: convex hulls need three points, smaller segments only get a label.
+    // Hulls are planar, so there are none in 3D.
+    const segments = layerState.hulls && dims === 2 ? getSegments() : [];
+    const hues = segmentHues(segments);
+    const hullData = segments.map((seg, s) => {
+        const pts = seg.indices.map(i => scaledCoords[i]);
+        const center = [pts.reduce((sum, p) => sum + p[0], 0) / pts.length, pts.reduce((sum, p) => sum + p[1], 0) / pts.length];
+        const [r, g, b] = hslToRgb(hues[s], 70, 55);
+        return { polygon: convexHull(pts), center, text: seg.name, fill: [r, g, b, 30], line: [r, g, b, 120], label: [r, g, b, 220] };
+    });
+
+    // The query sits inside the hull of its neighbours, so adding it leaves the scaling unchanged
+    const query = currentMapData?.query;
+    const queryPosition = query && query.distances ? placeByDistances(coordinates, query.distances, coordinates.length) : null;
+    const queryData = queryPosition ? [{ position: scaleCoordinates([...coordinates, queryPosition])[coordinates.length], text: query!.text }] : [];
+
     const layers = [];
-    if (layerState.lines) layers.push(new PathLayer({ id: 'path-layer', data: pathData, widthMinPixels: 1, getPath: (d: any) => d.path, getColor: [30, 41, 59], getWidth: layerState.lineWidth }));
+    if (hullData.length > 0) {
+        layers.push(new PolygonLayer({ id: 'hull-layer', data: hullData.filter(h => h.polygon.length >= 3), getPolygon: (d: any) => d.polygon, getFillColor: (d: any) => d.fill, getLineColor: (d: any) => d.line, lineWidthMinPixels: 1, stroked: true, filled: true }));
+        layers.push(new TextLayer({ id: 'hull-label-layer', data: hullData, getPosition: (d: any) => d.center, getText: (d: any) => d.text, getSize: layerState.labelSize + 2, getTextAnchor: 'middle', getAlignmentBaseline: 'center', getColor: (d: any) => d.label, fontFamily: 'system-ui', fontWeight: 'bold' }));
+    }
+    if (layerState.lines) layers.push(new PathLayer({ id: 'path-layer', data: pathData, widthMinPixels: 1, getPath: (d: any) => d.path, getColor: (d: any) => d.color, getWidth: layerState.lineWidth }));
     if (layerState.arrows) layers.push(new PathLayer({ id: 'arrow-layer', data: arrowPathData, widthMinPixels: 1, getPath: (d: any) => d.path, getColor: [59, 130, 246], getWidth: Math.max(1, layerState.arrowSize * 0.3), capRounded: true, jointRounded: true }));
     if (layerState.scores) layers.push(new TextLayer({ id: 'score-layer', data: scoreData, getPosition: (d: any) => d.position, getText: (d: any) => d.text, getSize: 12, getColor: [59, 130, 246], backgroundColor: [11, 15, 26, 220], fontFamily: 'Monospace' }));
-    if (layerState.points) layers.push(new ScatterplotLayer({ id: 'scatter-layer', data: pointsData, pickable: true, opacity: 1, stroked: false, filled: true, radiusMinPixels: 4, getPosition: (d: any) => d.position, getFillColor: [37, 99, 235], getRadius: layerState.radius, onClick: (info: any) => info.object && flyToEntity(info.object.index) }));
+    if (layerState.points) layers.push(new ScatterplotLayer({ id: 'scatter-layer', data: pointsData, pickable: true, opacity: 1, stroked: false, filled: true, radiusMinPixels: 4, getPosition: (d: any) => d.position, getFillColor: (d: any) => d.color, getRadius: layerState.radius, onClick: (info: any) => info.object && flyToEntity(info.object.index), onHover: (info: any) => highlightRow(info.object ? info.object.index : null) }));
+    if (queryData.length > 0) {
+        layers.push(new ScatterplotLayer({ id: 'query-layer', data: queryData, stroked: true, filled: true, radiusMinPixels: 7, getPosition: (d: any) => d.position, getFillColor: [251, 191, 36], getLineColor: [255, 255, 255], lineWidthMinPixels: 2, getRadius: layerState.radius * 2 }));
+        layers.push(new TextLayer({ id: 'query-text-layer', data: queryData, getPosition: (d: any) => d.position, getText: (d: any) => `? ${d.text}`, getSize: layerState.labelSize + 2, getTextAnchor: 'middle', getAlignmentBaseline: 'center', pixelOffset: [0, layerState.radius * 2 + layerState.labelSize + 6], getColor: [251, 191, 36], fontFamily: 'system-ui' }));
+    }
     if (layerState.labels) layers.push(new TextLayer({ id: 'text-layer', data: pointsData, getPosition: (d: any) => d.position, getText: (d: any) => d.text, getSize: layerState.labelSize, getTextAnchor: 'middle', getAlignmentBaseline: 'center', pixelOffset: [0, -(layerState.radius + layerState.labelSize + 4)], getColor: [255, 255, 255, 160], fontFamily: 'system-ui' }));
 
-    deckInstance.setProps({ layers, initialViewState: { target: [0, 0, 0], zoom: 1 } });
+    baseLayers = layers;
+    mapPositions = scaledCoords;
+    updateMapOverlays();
+}
+
+// Search matches, the selection and the hover highlight on top of the base layers
+function updateMapOverlays() {
+    if (!deckInstance) return;
+    const positions: any[] = mapPositions;
+    if (positions.length === 0) return;
+    const overlays = [];
+    const radius = layerState.radius;
+    const matches = [...searchMatches()];
+    if (matches.length > 0) {
+        overlays.push(new ScatterplotLayer({ id: 'search-layer', data: matches, getPosition: (i: any) => positions[i], getFillColor: [251, 191, 36, 200], radiusMinPixels: 5, getRadius: radius * 1.5 }));
+    }
+    if (selectedItems.size > 0) {
+        overlays.push(new ScatterplotLayer({ id: 'selection-layer', data: [...selectedItems], getPosition: (i: any) => positions[i], stroked: true, filled: false, getLineColor: [255, 255, 255, 220], lineWidthMinPixels: 2, radiusMinPixels: 7, getRadius: radius * 2 }));
+    }
+    if (mapHighlight.points.length > 0) {
+        overlays.push(new PathLayer({ id: 'highlight-path-layer', data: mapHighlight.segments, getPath: (d: any) => [positions[d[0]], positions[d[1]]], getColor: [251, 191, 36], widthMinPixels: 3, getWidth: layerState.lineWidth * 3 }));
+        overlays.push(new ScatterplotLayer({ id: 'highlight-layer', data: mapHighlight.points, getPosition: (i: any) => positions[i], stroked: true, getFillColor: [251, 191, 36], getLineColor: [255, 255, 255], lineWidthMinPixels: 2, radiusMinPixels: 7, getRadius: radius * 2 }));
+    }
+    deckInstance.setProps({ layers: [...baseLayers, ...overlays] });
 }
 
-function cosineSimilarity(a: number[], b: number[]) {
-    let dot = 0, nA = 0, nB = 0;
-    for (let i = 0; i < a.length; i++) { dot += a[i] * b[i]; nA += a[i] * a[i]; nB += b[i] * b[i]; }
-    return dot / (Math.sqrt(nA) * Math.sqrt(nB));
+// True when a and b belong to the same tour, i.e. not across a section boundary
+function sameTour(a: number, b: number) {
+    const sectionOf = getSectionLookup();
+    return sectionOf.get(a) === sectionOf.get(b);
 }
-function getDistance(a: number[], b: number[]) { return Math.max(0, 1 - cosineSimilarity(a, b)); }
 
-function renderResult(indices: number[], entities: string[], embeddings: number[][]) {
-    outputList.innerHTML = '';
-    let currentHue = 210; // Start with a nice blue
-    
+// Highlights an item and the path segments into and out of it
+function highlightItem(idx: number | null) {
+    if (!currentMapData || idx === null) {
+        mapHighlight = { points: [], segments: [] };
+    } else {
+        const order = currentMapData.sortedIndices;
+        const rank = order.indexOf(idx);
+        const segments: [number, number][] = [];
+        if (rank > 0 && sameTour(order[rank - 1], idx)) segments.push([order[rank - 1], idx]);
+        if (rank < order.length - 1 && sameTour(idx, order[rank + 1])) segments.push([idx, order[rank + 1]]);
+        mapHighlight = { points: [idx], segments };
+    }
+    updateMapOverlays();
+}
+
+// A pair from the matrix: both points and the line between them
+function highlightPair(i: number, j: number) {
+    mapHighlight = i === j ? { points: [i], segments: [] } : { points: [i, j], segments: [[i, j]] };
+    updateMapOverlays();
+}
+
+// Map hover: mark the row in the list
+let hoveredRow: HTMLElement | null = null;
+function highlightRow(idx: number | null) {
+    hoveredRow?.classList.remove('ring-1', 'ring-amber-300/70');
+    hoveredRow = idx === null ? null : outputList.querySelector(`[data-index="${idx}"]`);
+    hoveredRow?.classList.add('ring-1', 'ring-amber-300/70');
+}
+
+// Re-draws everything that shows the selection
+function refreshSelection() {
+    if (currentMapData) renderResult(currentMapData.sortedIndices, currentMapData.entities, false);
+    updateMapOverlays();
+    renderSelectionBar();
+}
+
+function renderSelectionBar() {
+    const bar = document.getElementById('selection-bar');
+    if (!bar) return;
+    const count = bar.querySelector('#selection-count');
+    if (count) count.textContent = `${selectedItems.size} selected`;
+    bar.classList.toggle('hidden', selectedItems.size === 0);
+}
+
+// Lasso on the map: a free-hand polygon in screen space, tested against the projected points
+const lassoOverlay = document.getElementById('lasso-overlay') as unknown as SVGSVGElement | null;
+let lassoPath: number[][] | null = null;
+
+function pointInPolygon(p: number[], polygon: number[][]) {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const [xi, yi] = polygon[i], [xj, yj] = polygon[j];
+        if ((yi > p[1]) !== (yj > p[1]) && p[0] < ((xj - xi) * (p[1] - yi)) / (yj - yi) + xi) inside = !inside;
+    }
+    return inside;
+}
+
+function finishLasso(additive: boolean) {
+    const polygon = lassoPath;
+    lassoPath = null;
+    lassoOverlay?.querySelector('polyline')?.setAttribute('points', '');
+    const viewport = deckInstance?.getViewports()?.[0];
+    if (!polygon || polygon.length < 3 || !viewport) return;
+    if (!additive) selectedItems.clear();
+    mapPositions.forEach((pos, idx) => {
+        const [x, y] = viewport.project(pos.length === 3 ? pos : [pos[0], pos[1], 0]);
+        if (pointInPolygon([x, y], polygon)) selectedItems.add(idx);
+    });
+    refreshSelection();
+}
+
+if (lassoOverlay) {
+    const local = (e: PointerEvent) => {
+        const rect = lassoOverlay.getBoundingClientRect();
+        return [e.clientX - rect.left, e.clientY - rect.top];
+    };
+    lassoOverlay.addEventListener('pointerdown', (e) => {
+        lassoPath = [local(e)];
+        lassoOverlay.setPointerCapture(e.pointerId);
+    });
+    lassoOverlay.addEventListener('pointermove', (e) => {
+        if (!lassoPath) return;
+        lassoPath.push(local(e));
+        lassoOverlay.querySelector('polyline')?.setAttribute('points', lassoPath.map(p => p.join(',')).join(' '));
+    });
+    lassoOverlay.addEventListener('pointerup', (e) => finishLasso(e.shiftKey));
+}
+
+const lassoBtn = document.getElementById('btn-lasso');
+if (lassoBtn && lassoOverlay) {
+    lassoBtn.addEventListener('click', () => {
+        // While the lasso is active the overlay takes the pointer, so the map does not pan
+        const active = lassoOverlay.classList.toggle('hidden') === false;
+        lassoBtn.classList.toggle('text-blue-400', active);
+        lassoBtn.classList.toggle('border-blue-400/40', active);
+    });
+}
+
+function searchMatches() {
+    const matches = new Set<number>();
+    const term = ((document.getElementById('param-search') as HTMLInputElement)?.value || '').trim().toLowerCase();
+    if (!term || !currentMapData) return matches;
+    currentMapData.entities.forEach((e, i) => { if (e.toLowerCase().includes(term)) matches.add(i); });
+    return matches;
+}
+
+// Centers the map between two items, zoomed so both stay in view
+function flyToPair(i: number, j: number) {
+    const a = mapPositions[i], b = mapPositions[j];
+    if (!deckInstance || !a || !b) return;
+    const distance = Math.hypot(...a.map((x, k) => x - b[k]));
+    const target = a.map((x, k) => (x + b[k]) / 2);
+    deckInstance.setProps({
+        initialViewState: {
+            ...defaultViewState(viewDimensions),
+            target: target.length === 3 ? target : [...target, 0],
+            zoom: Math.max(0.5, Math.min(5, Math.log2(400 / Math.max(distance, 1)))),
+            transitionDuration: 800
+        }
+    });
+    highlightPair(i, j);
+}
+
+const defaultViewState = (dims: number) => dims === 3
+    ? { target: [0, 0, 0], zoom: 1, rotationX: 30, rotationOrbit: 30 }
+    : { target: [0, 0, 0], zoom: 1 };
+
+// 2D layouts use a flat orthographic view, 3D layouts an orbit view that can be rotated
+function setMapView(dims: number) {
+    viewDimensions = dims;
+    deckInstance.setProps({
+        views: dims === 3
+            ? new OrbitView({ id: 'orbit', controller: true })
+            : new OrthographicView({ id: 'ortho', controller: true }),
+        initialViewState: defaultViewState(dims)
+    });
+}
+
+// Section index per entity; empty when the result is not grouped
+function getSectionLookup() {
+    const lookup = new Map<number, number>();
+    currentMapData?.sections?.forEach((sec, k) => sec.indices.forEach(idx => lookup.set(idx, k)));
+    return lookup;
+}
+
+// Ranks where a new section starts; section starts are not transitions of the tour
+function getSectionBreaks(order: number[]) {
+    const sectionOf = getSectionLookup();
+    const breaks = new Set<number>();
+    if (sectionOf.size > 0) {
+        order.forEach((idx, i) => { if (i > 0 && sectionOf.get(idx) !== sectionOf.get(order[i-1])) breaks.add(i); });
+    }
+    return breaks;
+}
+
+function currentPathCost() {
+    if (!currentMapData) return 0;
+    const { sortedIndices, distance } = currentMapData;
+    return orderStats(sortedIndices, distance, getSectionBreaks(sortedIndices)).cost;
+}
+
+const sectionHue = (k: number) => (210 + k * 45) % 360;
+
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+    s /= 100; l /= 100;
+    const a = s * Math.min(l, 1 - l);
+    const f = (n: number) => {
+        const k = (n + h / 30) % 12;
+        return Math.round(255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+    };
+    return [f(0), f(8), f(4)];
+}
+
+// Distances of a result: the worker's matrix, or for a large list the vectors, with the
+// transitions of the returned order known up front so rendering the list computes nothing.
+// A session saved without either only knows its transitions; other pairs are NaN.
+function resultDistance(matrix: Float32Array | null, embeddings: number[][], metric: DistanceMetric, order: number[], transitions?: number[]): DistanceFn {
+    if (matrix) return matrixDistances(matrix, order.length);
+    const fromVectors = embeddings.length === order.length ? embeddingDistances(packEmbeddings(embeddings), metric) : undefined;
+    return transitions ? orderDistances(order, transitions, fromVectors) : fromVectors ?? (() => NaN);
+}
+
+// Similarity between two entities
+function getSimilarity(i: number, j: number) {
+    if (!currentMapData) return 0;
+    return distanceToSimilarity(currentMapData.distance(i, j), currentMapData.metric);
+}
+
+function readSegmentOptions(): SegmentOptions {
+    const defaults = defaultSegmentOptions(thresholdMetric);
+    const modeSelect = document.getElementById('param-segment-mode') as HTMLSelectElement;
+    const value = parseFloat((document.getElementById('param-segment-value') as HTMLInputElement)?.value ?? '');
+    const mode = (modeSelect?.value || defaults.mode) as SegmentMode;
+    return {
+        mode,
+        threshold: mode === 'threshold' && Number.isFinite(value) ? value : defaults.threshold,
+        count: mode === 'count' && Number.isFinite(value) ? Math.max(1, Math.round(value)) : defaults.count
+    };
+}
+
+// Segments of the current order, nested inside sections
+function getSegments(): Segment[] {
+    if (!currentMapData) return [];
+    const { sortedIndices, entities, distance } = currentMapData;
+    const cuts = segmentCuts(sortedIndices, getSimilarity, readSegmentOptions(), getSectionBreaks(sortedIndices));
+    return buildSegments(sortedIndices, cuts, entities, distance);
+}
+
+// Segments take their section's hue; without sections every segment shifts the hue
+function segmentHues(segments: Segment[]) {
+    const sectionOf = getSectionLookup();
+    return segments.map((seg, s) => sectionHue(sectionOf.get(seg.indices[0]) ?? s));
+}
+
+function pinLabel(idx: number) {
+    if (currentConstraints.start === idx) return 'START';
+    if (currentConstraints.end === idx) return 'END';
+    const pin = currentConstraints.pinned.find(p => p.index === idx);
+    return pin ? `@${pin.position}` : '';
+}
+
+function renderResult(indices: number[], entities: string[], animate = true) {
+    const hadFocus = outputList.contains(document.activeElement);
+    outputList.replaceChildren();
+    const sections = currentMapData?.sections;
+    const sectionOf = getSectionLookup();
+    const segments = getSegments();
+    const hues = segmentHues(segments);
+    const segmentAt = new Map(segments.map((seg, s) => [seg.start, s]));
+    const outline = !!(document.getElementById('param-outline') as HTMLInputElement)?.checked;
+    const matches = searchMatches();
+    let s = 0;
+    const query = currentMapData?.query;
+    const showQuerySim = !!query && !!(document.getElementById('query-show-sim') as HTMLInputElement)?.checked;
+    const threshold = query ? readQueryThreshold() : 0;
+
     indices.forEach((idx, i) => {
-        const simNum = i > 0 ? (1 - getDistance(embeddings[indices[i-1]], embeddings[idx])) : 1;
-        
-        // If similarity drops significantly, we assume a "topic break" and shift hue
-        if (i > 0 && simNum < 0.8) {
-            currentHue = (currentHue + 45) % 360;
+        const k = sectionOf.get(idx);
+        const sectionStart = k !== undefined && (i === 0 || sectionOf.get(indices[i-1]) !== k);
+        // Similarity across a section boundary is meaningless, the tours are independent
+        const simNum = i > 0 && !sectionStart ? getSimilarity(indices[i-1], idx) : 1;
+        if (segmentAt.has(i)) s = segmentAt.get(i)!;
+        const segment = segments[s];
+        const currentHue = hues[s] ?? sectionHue(0);
+
+        if (sections && k !== undefined && sectionStart) {
+            const header = document.createElement('div');
+            header.className = 'pt-3 pb-1 text-[11px] font-bold uppercase tracking-[0.2em] font-mono';
+            header.style.color = `hsl(${currentHue}, 70%, 65%)`;
+            header.textContent = `${sections[k].name} (${sections[k].indices.length})`;
+            header.setAttribute('role', 'presentation');
+            outputList.appendChild(header);
+        }
+        if (outline && segment && segment.start === i) {
+            const collapsed = collapsedSegments.has(segment.start);
+            const header = document.createElement('div');
+            header.className = `pt-2 pb-0.5 ${sections ? 'pl-3 ' : ''}flex items-center gap-2 text-[12px] font-semibold cursor-pointer select-none hover:brightness-125`;
+            header.style.color = `hsl(${currentHue}, 60%, 70%)`;
+            const caret = document.createElement('span');
+            caret.className = 'font-mono text-[10px] w-3';
+            caret.textContent = collapsed ? '▸' : '▾';
+            const title = document.createElement('span');
+            title.className = 'truncate';
+            title.textContent = segment.name;
+            const count = document.createElement('span');
+            count.className = 'text-[11px] font-mono text-slate-600 shrink-0';
+            count.textContent = `(${segment.indices.length})`;
+            header.append(caret, title, count);
+            header.setAttribute('role', 'presentation');
+            header.onclick = () => {
+                if (collapsed) collapsedSegments.delete(segment.start);
+                else collapsedSegments.add(segment.start);
+                renderResult(indices, entities, false);
+            };
+            outputList.appendChild(header);
         }
 
-        const sim = i > 0 ? simNum.toFixed(4) : '';
+        const sim = i > 0 && !sectionStart ? simNum.toFixed(4) : '';
+        const querySim = showQuerySim ? query!.similarities[idx].toFixed(4) : '';
+        const pin = pinLabel(idx);
+        const meta = currentMapData?.metadata?.[idx];
+        const metaText = meta ? Object.entries(meta).filter(([, v]) => v).map(([k, v]) => `${k}=${v}`).join(' · ') : '';
         const el = document.createElement('div');
         
         // Visual indicator: Stronger link = Darker/More intense background
@@ -349,35 +1345,982 @@ function renderResult(indices: number[], entities: string[], embeddings: number[
         const alpha = 0.1 + (intensity * 0.3);
         const lightness = 40 - (intensity * 20); 
         
-        el.className = 'p-1 px-3 border rounded flex items-center gap-1.5 animate-fade-in group hover:ring-1 hover:ring-white/20 transition-all cursor-pointer';
+        el.className = `${outline ? 'ml-4 ' : ''}p-1 px-3 border rounded flex items-center gap-1.5 ${animate ? 'animate-fade-in ' : ''}group hover:ring-1 hover:ring-white/20 transition-all cursor-pointer`;
         el.style.backgroundColor = `hsla(${currentHue}, 70%, ${lightness}%, ${alpha})`;
         el.style.borderColor = `hsla(${currentHue}, 70%, 50%, 0.15)`;
         
-        el.innerHTML = `<span class="text-[11px] text-slate-700 font-mono w-5 shrink-0">${(i+1).toString().padStart(2, '0')}</span><span class="text-slate-300 text-sm font-medium overflow-x-auto whitespace-nowrap scrollbar-none">${entities[idx]}</span>${sim ? `<span class="text-[11px] text-slate-500 font-mono ml-auto tracking-tighter shrink-0">SIM_${sim}</span>` : ''}`;
-        el.onclick = () => flyToEntity(idx);
-        el.style.animationDelay = `${i * 20}ms`;
+        el.append(
+            h('span', 'text-[11px] text-slate-700 font-mono w-5 shrink-0', (i+1).toString().padStart(2, '0')),
+            h('span', 'flex flex-col min-w-0',
+                h('span', 'text-slate-300 text-sm font-medium overflow-x-auto whitespace-nowrap scrollbar-none', entities[idx]),
+                metaText && h('span', 'text-[11px] text-slate-600 font-mono truncate', metaText)),
+            pin && h('span', 'text-[10px] font-mono text-amber-400/80 border border-amber-400/30 rounded px-1 shrink-0', pin),
+            querySim && h('span', 'text-[11px] text-amber-500/70 font-mono ml-auto tracking-tighter shrink-0', `Q_${querySim}`),
+            sim && h('span', 'text-[11px] text-slate-500 font-mono ml-auto tracking-tighter shrink-0', `SIM_${sim}`)
+        );
+        el.dataset.rank = String(i);
+        el.dataset.index = String(idx);
+        el.id = `result-item-${idx}`;
+        el.tabIndex = -1;
+        el.setAttribute('role', 'option');
+        el.setAttribute('aria-selected', String(selectedItems.has(idx)));
+        el.setAttribute('aria-posinset', String(i + 1));
+        el.setAttribute('aria-setsize', String(indices.length));
+        el.setAttribute('aria-label', describeRank(indices, entities, i, sectionOf));
+        if (selectedItems.has(idx)) el.classList.add('ring-2', 'ring-blue-400/70');
+        if (matches.has(idx)) el.classList.add('outline', 'outline-1', 'outline-amber-400/70');
+        // Filtered rows keep their rank so the numbering still matches the full order
+        if (query && query.similarities[idx] < threshold) el.classList.add('hidden');
+        if (outline && segment && collapsedSegments.has(segment.start)) el.classList.add('hidden');
+        el.draggable = true;
+        el.onclick = (e) => {
+            if (e.shiftKey) {
+                if (selectedItems.has(idx)) selectedItems.delete(idx);
+                else selectedItems.add(idx);
+                refreshSelection();
+                return;
+            }
+            flyToEntity(idx);
+        };
+        el.onmouseenter = () => highlightItem(idx);
+        el.onmouseleave = () => highlightItem(null);
+        if (animate) el.style.animationDelay = `${i * 20}ms`;
+
+        const locked = lockedItems.has(idx);
+        const lockBtn = document.createElement('button');
+        lockBtn.className = `text-[10px] font-mono uppercase shrink-0 px-1 rounded border ${locked ? 'text-blue-300 border-blue-400/40' : 'text-slate-600 border-transparent opacity-0 group-hover:opacity-100 hover:text-blue-400'}`;
+        lockBtn.textContent = locked ? 'Locked' : 'Lock';
+        lockBtn.title = 'Keep this item at its rank when re-optimizing (L)';
+        // The row itself is the tab stop; L locks from the keyboard
+        lockBtn.tabIndex = -1;
+        lockBtn.onclick = (e) => {
+            e.stopPropagation();
+            if (lockedItems.has(idx)) lockedItems.delete(idx);
+            else lockedItems.add(idx);
+            renderResult(indices, entities, false);
+        };
+        el.appendChild(lockBtn);
         outputList.appendChild(el);
     });
+
+    // One row is reachable with Tab: the focused one if it is still visible, else the first
+    const rows = visibleRows();
+    const active = rows.find(r => r.dataset.index === String(focusedItem)) ?? rows[0];
+    if (active) {
+        active.tabIndex = 0;
+        if (hadFocus) active.focus({ preventScroll: true });
+    }
+}
+
+// What a screen reader says for the row at `rank`: position, text, pin and lock, and
+// the similarity to both neighbours (none across a section boundary)
+function describeRank(indices: number[], entities: string[], rank: number, sectionOf = getSectionLookup()) {
+    const idx = indices[rank];
+    const prev = rank > 0 ? indices[rank - 1] : undefined;
+    const next = rank < indices.length - 1 ? indices[rank + 1] : undefined;
+    const parts = [`${rank + 1} of ${indices.length}: ${entities[idx]}`];
+    const k = sectionOf.get(idx);
+    const sections = currentMapData?.sections;
+    if (sections && k !== undefined && (prev === undefined || sectionOf.get(prev) !== k)) parts.unshift(`Section ${sections[k].name}`);
+    const pin = pinLabel(idx);
+    if (pin) parts.push(`pinned ${pin}`);
+    if (lockedItems.has(idx)) parts.push('locked');
+    if (prev !== undefined && sectionOf.get(prev) === k) parts.push(`similarity to previous ${getSimilarity(prev, idx).toFixed(2)}`);
+    if (next !== undefined && sectionOf.get(next) === k) parts.push(`to next ${getSimilarity(idx, next).toFixed(2)}`);
+    return parts.join(', ');
+}
+
+const visibleRows = () => [...outputList.querySelectorAll<HTMLElement>('[role="option"]:not(.hidden)')];
+
+// Polite announcement for changes the focused row does not speak by itself
+const listAnnouncer = document.getElementById('list-announcer');
+function announce(text: string) {
+    if (!listAnnouncer) return;
+    listAnnouncer.textContent = '';
+    requestAnimationFrame(() => { listAnnouncer.textContent = text; });
+}
+
+function readQueryThreshold() {
+    const input = document.getElementById('query-threshold') as HTMLInputElement;
+    return parseFloat(input?.value || '0') || 0;
+}
+
+// Moves an item by hand, locks it and refreshes every view that depends on the order
+function moveItem(from: number, to: number) {
+    if (!currentMapData || from === to) return;
+    const order = [...currentMapData.sortedIndices];
+    const [idx] = order.splice(from, 1);
+    order.splice(to, 0, idx);
+
+    // A moved item joins the section of the item it now follows (or precedes at the very top)
+    if (currentMapData.sections) {
+        const sectionOf = getSectionLookup();
+        const neighbour = to > 0 ? order[to - 1] : order[to + 1];
+        const target = sectionOf.get(neighbour) ?? 0;
+        sectionOf.set(idx, target);
+        currentMapData.sections = currentMapData.sections.map((sec, k) => ({
+            name: sec.name,
+            indices: order.filter(i => sectionOf.get(i) === k)
+        }));
+        currentMapData.sortedIndices = currentMapData.sections.flatMap(sec => sec.indices);
+    } else {
+        currentMapData.sortedIndices = order;
+    }
+    lockedItems.add(idx);
+
+    const { sortedIndices, entities, coordinates } = currentMapData;
+    renderResult(sortedIndices, entities, false);
+    renderMap(sortedIndices, entities, coordinates);
+    renderQuality();
+    heatmap?.setOrder(matrixOrder());
+    const cost = currentPathCost();
+    const delta = optimizedCost !== null ? cost - optimizedCost : 0;
+    setStatus(`Manual order: path length ${cost.toFixed(3)} // ${delta >= 0 ? '+' : ''}${delta.toFixed(3)} vs. optimized // ${lockedItems.size} locked`);
+}
+
+let dragRank: number | null = null;
+outputList.addEventListener('dragstart', (e) => {
+    const row = (e.target as HTMLElement).closest('[data-rank]') as HTMLElement | null;
+    if (!row) return;
+    dragRank = parseInt(row.dataset.rank!, 10);
+    e.dataTransfer?.setData('text/plain', row.dataset.rank!);
+    row.classList.add('opacity-40');
+});
+outputList.addEventListener('dragover', (e) => {
+    if (dragRank !== null) e.preventDefault();
+});
+outputList.addEventListener('drop', (e) => {
+    const row = (e.target as HTMLElement).closest('[data-rank]') as HTMLElement | null;
+    if (dragRank === null || !row) return;
+    e.preventDefault();
+    const from = dragRank;
+    dragRank = null;
+    moveItem(from, parseInt(row.dataset.rank!, 10));
+});
+outputList.addEventListener('dragend', () => {
+    dragRank = null;
+    outputList.querySelectorAll('.opacity-40').forEach(el => el.classList.remove('opacity-40'));
+});
+
+// Roving tab stop: the row that gets focus (by keyboard or click) becomes the list's
+// tab stop and is highlighted on the map
+outputList.addEventListener('focusin', (e) => {
+    const row = (e.target as HTMLElement).closest<HTMLElement>('[role="option"]');
+    if (!row) return;
+    outputList.querySelectorAll<HTMLElement>('[role="option"][tabindex="0"]').forEach(r => { if (r !== row) r.tabIndex = -1; });
+    row.tabIndex = 0;
+    focusedItem = parseInt(row.dataset.index!, 10);
+    highlightItem(focusedItem);
+});
+outputList.addEventListener('focusout', (e) => {
+    if (!outputList.contains(e.relatedTarget as Node | null)) highlightItem(null);
+});
+
+// Arrows, Home/End and PageUp/PageDown move the focus; Enter flies to the point, Space
+// selects, Alt+ArrowUp/ArrowDown moves the item one place and L locks it
+outputList.addEventListener('keydown', (e) => {
+    const row = (e.target as HTMLElement).closest<HTMLElement>('[role="option"]');
+    if (!row || !currentMapData || e.ctrlKey || e.metaKey) return;
+    const rank = parseInt(row.dataset.rank!, 10);
+    const idx = parseInt(row.dataset.index!, 10);
+    const rows = visibleRows();
+    const pos = rows.indexOf(row);
+    const focusRow = (target: HTMLElement | undefined) => {
+        target?.focus();
+        target?.scrollIntoView({ block: 'nearest' });
+    };
+
+    if (e.altKey) {
+        if (e.key !== 'ArrowUp' && e.key !== 'ArrowDown') return;
+        e.preventDefault();
+        const to = rank + (e.key === 'ArrowUp' ? -1 : 1);
+        if (to < 0 || to >= currentMapData.sortedIndices.length) return;
+        focusedItem = idx;
+        moveItem(rank, to);
+        const { sortedIndices, entities } = currentMapData;
+        announce(`Moved to ${describeRank(sortedIndices, entities, to)}`);
+        outputList.querySelector<HTMLElement>(`[data-index="${idx}"]`)?.scrollIntoView({ block: 'nearest' });
+        return;
+    }
+    switch (e.key) {
+        case 'ArrowDown': focusRow(rows[pos + 1]); break;
+        case 'ArrowUp': focusRow(rows[pos - 1]); break;
+        case 'PageDown': focusRow(rows[Math.min(rows.length - 1, pos + 10)]); break;
+        case 'PageUp': focusRow(rows[Math.max(0, pos - 10)]); break;
+        case 'Home': focusRow(rows[0]); break;
+        case 'End': focusRow(rows[rows.length - 1]); break;
+        case 'Enter': flyToEntity(idx); break;
+        case ' ':
+            if (selectedItems.has(idx)) selectedItems.delete(idx);
+            else selectedItems.add(idx);
+            refreshSelection();
+            announce(`${selectedItems.has(idx) ? 'Selected' : 'Deselected'}, ${selectedItems.size} selected`);
+            break;
+        case 'l':
+        case 'L':
+            if (lockedItems.has(idx)) lockedItems.delete(idx);
+            else lockedItems.add(idx);
+            renderResult(currentMapData.sortedIndices, currentMapData.entities, false);
+            announce(lockedItems.has(idx) ? 'Locked' : 'Unlocked');
+            break;
+        default:
+            return;
+    }
+    e.preventDefault();
+});
+
+// Scrolls the list row at `rank` into view, flashes it and focuses it on the map
+function focusRank(rank: number) {
+    if (!currentMapData) return;
+    const row = outputList.querySelector(`[data-rank="${rank}"]`) as HTMLElement | null;
+    if (row) {
+        row.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        row.classList.add('ring-1', 'ring-amber-400/60');
+        setTimeout(() => row.classList.remove('ring-1', 'ring-amber-400/60'), 1500);
+    }
+    flyToEntity(currentMapData.sortedIndices[rank]);
+}
+
+function renderQuality() {
+    const panel = document.getElementById('quality-report');
+    if (!panel || !currentMapData) return;
+    const { sortedIndices, entities, matrix, distance, metric } = currentMapData;
+    const weakestInput = document.getElementById('param-weakest') as HTMLInputElement;
+    const weakestCount = Math.max(1, parseInt(weakestInput?.value || '5', 10) || 5);
+
+    const breaks = getSectionBreaks(sortedIndices);
+    // Without a matrix (large lists) the nearest-neighbour baseline would compare every pair
+    const report = buildQualityReport(sortedIndices, distance, breaks, { greedy: matrix !== null });
+    const sims = report.sorted.transitions.map(t => distanceToSimilarity(t.distance, metric));
+    const meanSim = sims.length ? sims.reduce((a, b) => a + b, 0) / sims.length : 1;
+    const minSim = sims.length ? Math.min(...sims) : 1;
+    const weakest = [...report.sorted.transitions].sort((a, b) => b.distance - a.distance).slice(0, weakestCount);
+
+    const stat = (label: string, value: string) =>
+        h('div', 'flex flex-col', h('span', 'text-slate-600 uppercase tracking-widest text-[10px]', label), h('span', 'text-slate-300 text-sm', value));
+    const compare = (label: string, cost: number) => {
+        const delta = cost > 0 ? ((cost - report.path) / cost) * 100 : 0;
+        return h('div', 'flex items-center justify-between',
+            h('span', 'text-slate-500', label),
+            h('span', 'text-slate-400', `${cost.toFixed(3)} `,
+                h('span', delta >= 0 ? 'text-emerald-400/80' : 'text-red-400/80', `${delta >= 0 ? '-' : '+'}${Math.abs(delta).toFixed(1)}%`)));
+    };
+    const heading = (text: string) => h('div', 'text-slate-600 uppercase tracking-widest text-[10px]', text);
+    const weakLink = (t: typeof weakest[number]) => {
+        const btn = h('button', 'w-full flex items-center justify-between gap-3 text-left hover:text-blue-400',
+            h('span', 'truncate', h('span', 'text-slate-600 mr-2', (t.rank+1).toString().padStart(2, '0')), `${entities[t.from]} → ${entities[t.to]}`),
+            h('span', 'text-slate-500 shrink-0', `SIM_${distanceToSimilarity(t.distance, metric).toFixed(4)}`));
+        btn.onclick = () => focusRank(t.rank);
+        return btn;
+    };
+
+    panel.replaceChildren(
+        h('div', 'grid grid-cols-3 gap-4',
+            stat(breaks.size > 0 ? 'Path length (within sections)' : 'Path length', report.sorted.cost.toFixed(3)),
+            stat('Mean neighbour sim', meanSim.toFixed(4)),
+            stat('Min neighbour sim', minSim.toFixed(4))),
+        h('div', 'space-y-1',
+            // The baselines run straight through, so the sections count with their break transitions
+            heading(breaks.size > 0 ? `Optimized vs. baselines (path length ${report.path.toFixed(3)} incl. breaks, saving)` : 'Optimized vs. baselines (path length, saving)'),
+            compare('Input order', report.input),
+            report.greedy !== null && compare('Greedy nearest neighbour', report.greedy),
+            compare('Random order (mean)', report.random)),
+        h('div', 'space-y-1', heading('Weakest transitions'), ...weakest.map(weakLink))
+    );
+    panel.classList.remove('hidden');
+}
+
+// Similarity heatmap; hovering a cell highlights both items and the line between them on the map
+const heatmapCanvas = document.getElementById('matrix-canvas') as HTMLCanvasElement | null;
+const heatmapTooltip = document.getElementById('matrix-tooltip');
+const heatmap = heatmapCanvas && heatmapTooltip ? createHeatmap(heatmapCanvas, heatmapTooltip, {
+    onHover: (i, j) => (i === null || j === null ? highlightItem(null) : highlightPair(i, j)),
+    onClick: flyToPair
+}) : null;
+
+// Input order shows the raw matrix, sorted order shows clusters as blocks along the diagonal
+function matrixOrder() {
+    if (!currentMapData) return [];
+    const orderSelect = document.getElementById('matrix-order') as HTMLSelectElement;
+    return orderSelect?.value === 'input' ? currentMapData.entities.map((_, i) => i) : currentMapData.sortedIndices;
+}
+
+function renderMatrix() {
+    if (!heatmap || !currentMapData) return;
+    heatmap.setData(currentMapData.entities, getSimilarity, matrixOrder(), currentMapData.matrix === null);
+}
+
+const simThresholdInput = document.getElementById('sim-threshold') as HTMLInputElement | null;
+if (simThresholdInput) {
+    const update = () => {
+        const v = parseFloat(simThresholdInput.value);
+        const label = document.getElementById('sim-threshold-val');
+        if (label) label.textContent = v.toFixed(2);
+        heatmap?.setThreshold(v);
+    };
+    update();
+    simThresholdInput.addEventListener('input', update);
+}
+document.getElementById('matrix-order')?.addEventListener('change', () => heatmap?.setOrder(matrixOrder()));
+document.getElementById('btn-matrix-reset')?.addEventListener('click', () => heatmap?.resetView());
+window.addEventListener('resize', () => heatmap?.resetView());
+
+// Near-duplicate review: keep, merge into the representative, or drop each group
+const dupesPanel = document.getElementById('dupes-panel');
+const dupeActionLabels: [DuplicateAction, string][] = [['keep', 'Keep all'], ['merge', 'Merge'], ['drop', 'Drop all']];
+
+function renderDuplicatePanel() {
+    if (!dupesPanel) return;
+    if (!duplicateReview) {
+        dupesPanel.classList.add('hidden');
+        return;
+    }
+    const review = duplicateReview;
+    const { entities, groups, similarities, actions } = review;
+    const removed = removedByReview(groups, actions).size;
+    const summary = dupesPanel.querySelector('#dupes-summary') as HTMLSpanElement;
+    summary.textContent = `Near-duplicates // ${groups.length} groups // removing ${removed} of ${entities.length}`;
+    const list = dupesPanel.querySelector('#dupes-groups') as HTMLDivElement;
+    list.replaceChildren();
+    groups.forEach((group, k) => {
+        const card = document.createElement('div');
+        card.className = 'p-2 border border-slate-800 rounded space-y-1';
+        const bar = document.createElement('div');
+        bar.className = 'flex items-center gap-2 text-[10px] font-mono uppercase';
+        dupeActionLabels.forEach(([action, label]) => {
+            const btn = document.createElement('button');
+            const active = actions[k] === action;
+            btn.className = `px-1.5 py-0.5 rounded border ${active ? 'text-amber-300 border-amber-400/40' : 'text-slate-600 border-transparent hover:text-blue-400'}`;
+            btn.textContent = label;
+            btn.onclick = () => {
+                review.actions[k] = action;
+                renderDuplicatePanel();
+            };
+            bar.appendChild(btn);
+        });
+        card.appendChild(bar);
+        const rep = group.indices.indexOf(group.representative);
+        group.indices.forEach((idx, m) => {
+            const isRep = idx === group.representative;
+            const row = document.createElement('div');
+            const gone = actions[k] === 'drop' || (actions[k] === 'merge' && !isRep);
+            row.className = `flex items-center gap-2 text-sm cursor-pointer hover:text-blue-300 ${gone ? 'text-slate-600 line-through' : 'text-slate-300'}`;
+            row.title = 'Use as the representative when merging';
+            const marker = document.createElement('span');
+            marker.className = `text-[10px] font-mono w-3 shrink-0 ${isRep ? 'text-amber-400' : 'text-slate-700'}`;
+            marker.textContent = isRep ? '★' : '·';
+            const text = document.createElement('span');
+            text.className = 'truncate';
+            text.textContent = entities[idx];
+            const sim = document.createElement('span');
+            sim.className = 'text-[11px] text-slate-500 font-mono ml-auto shrink-0';
+            sim.textContent = isRep ? '' : `SIM_${similarities[k][m][rep].toFixed(4)}`;
+            row.append(marker, text, sim);
+            row.onclick = () => {
+                group.representative = idx;
+                renderDuplicatePanel();
+            };
+            card.appendChild(row);
+        });
+        list.appendChild(card);
+    });
+    dupesPanel.classList.remove('hidden');
+}
+
+// Removes the reviewed lines from the input (and the rows of an imported table) and sorts the rest
+function applyDuplicateReview() {
+    if (!duplicateReview) return;
+    const { lines, entities, sources, groups, actions } = duplicateReview;
+    const removed = removedByReview(groups, actions);
+    // With exact dedupe an entity stands for every line with its text, otherwise for its own line
+    const removedTexts = new Set([...removed].map(i => entities[i]));
+    const removedLines = new Set([...removed].map(i => sources[i]));
+    const keep = lines.map((line, k) => (layerState.deduplicate ? !removedTexts.has(stripMarker(line)) : !removedLines.has(k)));
+    if (structuredInput) {
+        structuredInput.data.rows = structuredInput.data.rows.filter((_, k) => keep[k] ?? true);
+        applyStructuredFields();
+        renderStructuredPanel();
+    } else {
+        inputText.value = lines.filter((_, k) => keep[k]).join('\n');
+    }
+    duplicateReview = null;
+    renderDuplicatePanel();
+    runSort(true);
+}
+
+document.getElementById('dupes-apply')?.addEventListener('click', applyDuplicateReview);
+document.getElementById('dupes-cancel')?.addEventListener('click', () => {
+    duplicateReview = null;
+    renderDuplicatePanel();
+    setStatus('Ready');
+});
+document.getElementById('dupes-merge-all')?.addEventListener('click', () => {
+    if (!duplicateReview) return;
+    duplicateReview.actions = duplicateReview.groups.map(() => 'merge');
+    renderDuplicatePanel();
+});
+
+// Structured input: file drop, file picker or pasted tables
+const structuredPanel = document.getElementById('structured-panel');
+
+function applyStructuredFields() {
+    if (!structuredInput) return;
+    const { data, fields } = structuredInput;
+    inputText.value = data.rows.map(r => rowText(r, fields)).join('\n');
+}
+
+function renderStructuredPanel() {
+    if (!structuredPanel) return;
+    if (!structuredInput) {
+        structuredPanel.classList.add('hidden');
+        return;
+    }
+    const { data, fields } = structuredInput;
+    const fieldList = structuredPanel.querySelector('#structured-fields') as HTMLDivElement;
+    const summary = structuredPanel.querySelector('#structured-summary') as HTMLSpanElement;
+    summary.textContent = `${data.format.toUpperCase()} // ${data.rows.length} rows // embed:`;
+    fieldList.replaceChildren();
+    data.columns.forEach(col => {
+        const label = document.createElement('label');
+        label.className = 'flex items-center gap-1.5 cursor-pointer hover:text-blue-400';
+        const box = document.createElement('input');
+        box.type = 'checkbox';
+        box.className = 'accent-blue-600';
+        box.checked = fields.includes(col);
+        box.onchange = () => {
+            if (!structuredInput) return;
+            const next = data.columns.filter(c => (c === col ? box.checked : structuredInput!.fields.includes(c)));
+            if (next.length === 0) { box.checked = true; return; }
+            structuredInput.fields = next;
+            applyStructuredFields();
+        };
+        label.append(box, document.createTextNode(col));
+        fieldList.appendChild(label);
+    });
+    structuredPanel.classList.remove('hidden');
+}
+
+function importStructured(data: StructuredData | null) {
+    if (!data || data.rows.length === 0) {
+        setStatus('Error: no rows found in structured input');
+        return;
+    }
+    structuredInput = { data, fields: guessTextColumns(data) };
+    inputText.readOnly = true;
+    applyStructuredFields();
+    renderStructuredPanel();
+    setStatus(`Imported ${data.rows.length} rows (${data.format})`);
+}
+
+function clearStructured() {
+    structuredInput = null;
+    inputText.readOnly = false;
+    renderStructuredPanel();
+}
+
+const importFile = (file: File) => {
+    const format = formatFromFileName(file.name);
+    file.text().then(text => {
+        if (!format) {
+            clearStructured();
+            inputText.value = text;
+            return;
+        }
+        try {
+            importStructured(parseStructured(text, format));
+        } catch (e) {
+            setStatus(`Error: could not parse ${file.name}: ${String(e)}`);
+        }
+    });
+};
+
+inputText.addEventListener('dragover', (e) => e.preventDefault());
+inputText.addEventListener('drop', (e) => {
+    const file = e.dataTransfer?.files?.[0];
+    if (!file) return;
+    e.preventDefault();
+    importFile(file);
+});
+// A paste that only might be a table stays plain text until the user imports it
+let pastedTable: { text: string; format: StructuredFormat } | null = null;
+
+function offerPastedTable(offer: typeof pastedTable) {
+    pastedTable = offer;
+    const panel = document.getElementById('paste-table-panel');
+    const summary = document.getElementById('paste-table-summary');
+    panel?.classList.toggle('hidden', !offer);
+    if (!offer || !summary) return;
+    const header = offer.text.trim().split('\n')[0];
+    summary.textContent = `Looks like ${offer.format.toUpperCase()}, header: ${header.length > 60 ? header.slice(0, 60) + '…' : header}`;
+}
+
+inputText.addEventListener('paste', (e) => {
+    if (structuredInput) return;
+    const text = e.clipboardData?.getData('text') || '';
+    const detected = detectFormat(text);
+    offerPastedTable(null);
+    if (!detected) return;
+    if (!detected.confident) {
+        offerPastedTable({ text, format: detected.format });
+        return;
+    }
+    e.preventDefault();
+    importStructured(parseStructured(text, detected.format));
+});
+document.getElementById('btn-paste-table')?.addEventListener('click', () => {
+    if (!pastedTable) return;
+    const { text, format } = pastedTable;
+    offerPastedTable(null);
+    importStructured(parseStructured(text, format));
+});
+document.getElementById('btn-paste-plain')?.addEventListener('click', () => offerPastedTable(null));
+const fileInput = document.getElementById('import-file') as HTMLInputElement;
+if (fileInput) {
+    fileInput.addEventListener('change', () => {
+        const file = fileInput.files?.[0];
+        if (file) importFile(file);
+        fileInput.value = '';
+    });
+}
+const btnImport = document.getElementById('btn-import');
+if (btnImport) {
+    btnImport.addEventListener('click', () => fileInput?.click());
+}
+const btnClearStructured = document.getElementById('btn-clear-structured');
+if (btnClearStructured) {
+    btnClearStructured.addEventListener('click', clearStructured);
+}
+
+function buildExportRows(): ExportRow[] {
+    if (!currentMapData) return [];
+    const { sortedIndices, entities, distance, metric, sections, coordinates, metadata } = currentMapData;
+    return resultRows({ order: sortedIndices, entities, distance, metric, sections, segments: readSegmentOptions(), coordinates, metadata });
+}
+
+function exportMapPng() {
+    const canvas = deckInstance?.getCanvas() as HTMLCanvasElement | null;
+    if (!canvas) return;
+    deckInstance.redraw('export');
+    // Composite onto the container background, the WebGL canvas is transparent
+    const out = document.createElement('canvas');
+    out.width = canvas.width;
+    out.height = canvas.height;
+    const g = out.getContext('2d')!;
+    g.fillStyle = '#05070a';
+    g.fillRect(0, 0, out.width, out.height);
+    g.drawImage(canvas, 0, 0);
+    out.toBlob(blob => blob && download('semantic-map.png', blob));
+}
+
+const exportActions: Record<string, () => void> = {
+    csv: () => download('semantic-sort.csv', rowsToCsv(buildExportRows()), 'text/csv'),
+    json: () => download('semantic-sort.json', rowsToJson(buildExportRows()), 'application/json'),
+    md: () => download('semantic-sort.md', rowsToMarkdown(buildExportRows()), 'text/markdown'),
+    outline: () => download('outline.md', outlineToMarkdown(buildExportRows(), true), 'text/markdown'),
+    matrix: () => {
+        if (!currentMapData) return;
+        if (currentMapData.entities.length > LARGE_LIST_SIZE) {
+            setStatus(`Error: the similarity matrix is only exported for up to ${LARGE_LIST_SIZE} items`);
+            return;
+        }
+        download('similarity-matrix.csv', matrixToCsv(currentMapData.entities, getSimilarity), 'text/csv');
+    },
+    png: exportMapPng,
+    svg: () => {
+        if (!mapGeometry) return;
+        const points = mapGeometry.points.map(p => ({ x: p.position[0], y: p.position[1], text: p.text, color: p.color }));
+        const segments = layerState.lines ? mapGeometry.paths.map(p => ({ from: p.path[0], to: p.path[1], color: p.color })) : [];
+        download('semantic-map.svg', mapToSvg(points, segments, { radius: layerState.radius, lineWidth: layerState.lineWidth, labelSize: layerState.labelSize, labels: layerState.labels }), 'image/svg+xml');
+    }
+};
+
+document.querySelectorAll<HTMLButtonElement>('[data-export]').forEach(btn => {
+    btn.addEventListener('click', () => {
+        if (!currentMapData) return;
+        exportActions[btn.dataset.export || '']?.();
+        (btn.closest('details') as HTMLDetailsElement | null)?.removeAttribute('open');
+    });
+});
+
+// Sessions
+const setInputValue = (id: string, value: string | number | boolean | null) => {
+    const el = document.getElementById(id) as HTMLInputElement | HTMLSelectElement | null;
+    if (!el) return;
+    if (el instanceof HTMLInputElement && el.type === 'checkbox') el.checked = !!value;
+    else el.value = value === null ? '' : String(value);
+};
+
+function buildSession(name: string, includeEmbeddings: boolean): Session | null {
+    if (!currentMapData) return null;
+    const modelInput = document.getElementById('model-name') as HTMLInputElement;
+    const gpuCheck = document.getElementById('param-webgpu') as HTMLInputElement;
+    const run = lastRunSettings ?? {
+        modelName: modelInput?.value || '',
+        device: gpuCheck?.checked ? 'webgpu' : 'wasm',
+        model: readModelSettings(),
+        solver: readSolverSettings(),
+        grouping: readGrouping()
+    };
+    const { entities, sortedIndices, coordinates, distance, metric, sections, metadata, embeddings, query } = currentMapData;
+    return {
+        id: newSessionId(),
+        name,
+        createdAt: Date.now(),
+        input: inputText.value,
+        ...run,
+        layerState: { ...layerState },
+        projection: readProjectionSettings(),
+        result: {
+            entities, sortedIndices, coordinates, metric, sections, metadata, query,
+            transitions: transitionDistances(sortedIndices, distance),
+            constraints: currentConstraints,
+            // A comparison result shows the vectors of whichever model is on the map; only the loaded model's are worth keeping
+            embeddings: includeEmbeddings && (!comparison || comparison.active === 0) ? embeddings : null
+        }
+    };
+}
+
+function openSession(session: Session) {
+    const { result } = session;
+    clearStructured();
+    comparison = null;
+    renderComparison();
+    inputText.value = session.input;
+    const model = session.model ?? plainModelSettings(session.modelName);
+    applyModelSettings(model);
+    setInputValue('param-webgpu', session.device === 'webgpu');
+    setInputValue('param-metric', result.metric);
+    document.getElementById('param-metric')?.dispatchEvent(new Event('change'));
+    setInputValue('param-grouping', session.grouping.mode);
+    setInputValue('param-group-value', session.grouping.mode === 'capacity' ? session.grouping.maxSize : session.grouping.count);
+    setInputValue('param-max-time', session.solver.maxTime);
+    setInputValue('param-max-generations', session.solver.maxGenerations);
+    setInputValue('param-variation-sample', session.solver.variationSample);
+    setInputValue('param-variation-cv', session.solver.variationCv);
+    setInputValue('param-seed', session.solver.seed);
+    setInputValue('param-closed', session.solver.closed);
+    setInputValue('param-solver-path', session.solver.path ?? 'auto');
+    setInputValue('param-polish-window', session.solver.polishWindow ?? 0);
+    layerControls.forEach(([id, key]) => {
+        if (session.layerState[key] === undefined) return;
+        (layerState as any)[key] = session.layerState[key];
+        setInputValue(id, session.layerState[key]);
+    });
+
+    currentConstraints = result.constraints;
+    lastRunSettings = { modelName: session.modelName, device: session.device, model, solver: session.solver, grouping: session.grouping };
+    // The matrix is not stored; with the vectors it is computed again, as a sort would
+    const embeddings = result.embeddings ?? [];
+    const matrix = embeddings.length === result.entities.length && embeddings.length <= LARGE_LIST_SIZE
+        ? buildDistanceMatrix(packEmbeddings(embeddings), result.metric)
+        : null;
+    currentMapData = {
+        sortedIndices: result.sortedIndices,
+        entities: result.entities,
+        embeddings,
+        coordinates: result.coordinates,
+        matrix,
+        distance: resultDistance(matrix, embeddings, result.metric, result.sortedIndices, result.transitions),
+        metric: result.metric,
+        sections: result.sections,
+        metadata: result.metadata,
+        query: result.query ?? null,
+        space: vectorSpace(session.modelName, model)
+    };
+    setInputValue('query-text', result.query?.text ?? '');
+    if (result.query) setInputValue('query-mode', result.query.mode);
+    if (session.projection) {
+        setInputValue('param-proj-method', session.projection.method);
+        setInputValue('param-proj-dims', session.projection.dimensions);
+        setInputValue('param-proj-neighbors', session.projection.nNeighbors);
+        setInputValue('param-proj-min-dist', session.projection.minDist);
+        setInputValue('param-proj-spread', session.projection.spread);
+        setInputValue('param-proj-seed', session.projection.seed);
+    }
+    renderAll();
+    if (result.coordinates.length !== result.entities.length) requestProjection();
+    setStatus(`Session opened: ${session.name} (${result.entities.length} nodes)`);
+}
+
+const sessionList = document.getElementById('session-list');
+
+async function refreshSessionList() {
+    if (!sessionList) return;
+    const sessions = await listSessions();
+    sessionList.replaceChildren();
+    if (sessions.length === 0) {
+        sessionList.append(h('div', 'px-3 py-2 text-slate-700', 'No saved sessions'));
+        return;
+    }
+    sessions.forEach(summary => {
+        const row = document.createElement('div');
+        row.className = 'flex items-center gap-2 px-3 py-1.5 hover:bg-slate-900';
+        const label = document.createElement('button');
+        label.className = 'flex-1 min-w-0 text-left truncate text-slate-300 hover:text-blue-400 normal-case';
+        label.textContent = summary.name;
+        label.title = `${summary.size} nodes // ${new Date(summary.createdAt).toLocaleString()}`;
+        label.onclick = async () => {
+            const session = await loadSession(summary.id);
+            if (session) openSession(session);
+        };
+        const exportBtn = document.createElement('button');
+        exportBtn.className = 'hover:text-blue-400';
+        exportBtn.textContent = 'Export';
+        exportBtn.onclick = async () => {
+            const session = await loadSession(summary.id);
+            if (session) download(`${session.name.replace(/[^\w.-]+/g, '_')}.session.json`, sessionToJson(session), 'application/json');
+        };
+        const deleteBtn = document.createElement('button');
+        deleteBtn.className = 'hover:text-red-400';
+        deleteBtn.textContent = 'Del';
+        deleteBtn.onclick = async () => {
+            await deleteSession(summary.id);
+            refreshSessionList();
+        };
+        row.append(label, exportBtn, deleteBtn);
+        sessionList.appendChild(row);
+    });
+}
+
+const btnSaveSession = document.getElementById('btn-save-session');
+if (btnSaveSession) {
+    btnSaveSession.addEventListener('click', async () => {
+        const nameInput = document.getElementById('session-name') as HTMLInputElement;
+        const embCheck = document.getElementById('session-embeddings') as HTMLInputElement;
+        const name = nameInput?.value.trim() || `Session ${new Date().toLocaleString()}`;
+        const session = buildSession(name, !!embCheck?.checked);
+        if (!session) {
+            setStatus('Error: nothing to save, run a sort first');
+            return;
+        }
+        try {
+            await saveSession(session);
+            if (nameInput) nameInput.value = '';
+            setStatus(`Session saved: ${name}`);
+            refreshSessionList();
+        } catch (e) {
+            setStatus(`Error: could not save session: ${String(e)}`);
+        }
+    });
+}
+const sessionFileInput = document.getElementById('session-file') as HTMLInputElement;
+if (sessionFileInput) {
+    sessionFileInput.addEventListener('change', async () => {
+        const file = sessionFileInput.files?.[0];
+        sessionFileInput.value = '';
+        if (!file) return;
+        try {
+            const session = sessionFromJson(await file.text());
+            await saveSession(session);
+            openSession(session);
+            refreshSessionList();
+        } catch (e) {
+            setStatus(`Error: could not import session: ${String(e)}`);
+        }
+    });
+}
+const btnImportSession = document.getElementById('btn-import-session');
+if (btnImportSession) {
+    btnImportSession.addEventListener('click', () => sessionFileInput?.click());
+}
+refreshSessionList().catch(e => console.warn('Session storage unavailable', e));
+
+sortBtn.addEventListener('click', () => runSort());
+const reoptBtn = document.getElementById('reopt-btn');
+if (reoptBtn) {
+    reoptBtn.addEventListener('click', runReoptimize);
+}
+document.getElementById('compare-btn')?.addEventListener('click', runCompare);
+// Switches the map to another model's projection; the order on it stays the combined one
+const compareProjection = document.getElementById('compare-projection') as HTMLSelectElement | null;
+compareProjection?.addEventListener('change', () => {
+    if (!comparison || !currentMapData) return;
+    const k = Number(compareProjection.value);
+    comparison.active = k;
+    // A projection still running belongs to the previous model
+    projectionRequest = -1;
+    currentMapData.embeddings = comparison.orders[k].embeddings;
+    currentMapData.coordinates = comparison.coordinates[k] ?? [];
+    if (comparison.coordinates[k]) renderMap(currentMapData.sortedIndices, currentMapData.entities, currentMapData.coordinates, true);
+    else requestProjection();
+});
+const insertBtn = document.getElementById('insert-btn');
+if (insertBtn) {
+    insertBtn.addEventListener('click', runInsert);
+}
+const weakestInput = document.getElementById('param-weakest');
+if (weakestInput) {
+    weakestInput.addEventListener('input', renderQuality);
+}
+// Projection settings only re-project the map, the sorted list stays as it is
+['param-proj-method', 'param-proj-dims', 'param-proj-neighbors', 'param-proj-min-dist', 'param-proj-spread', 'param-proj-seed']
+    .forEach(id => document.getElementById(id)?.addEventListener('change', requestProjection));
+document.getElementById('btn-reproject')?.addEventListener('click', requestProjection);
+
+const rerenderSegments = () => {
+    if (!currentMapData) return;
+    collapsedSegments.clear();
+    renderResult(currentMapData.sortedIndices, currentMapData.entities, false);
+    renderMap(currentMapData.sortedIndices, currentMapData.entities, currentMapData.coordinates);
+};
+const segmentModeSelect = document.getElementById('param-segment-mode') as HTMLSelectElement | null;
+const segmentValueInput = document.getElementById('param-segment-value') as HTMLInputElement | null;
+if (segmentModeSelect && segmentValueInput) {
+    segmentModeSelect.addEventListener('change', () => {
+        // The value means a similarity or a count depending on the mode
+        const defaults = defaultSegmentOptions(thresholdMetric);
+        const mode = segmentModeSelect.value as SegmentMode;
+        segmentValueInput.disabled = mode === 'auto';
+        segmentValueInput.step = mode === 'count' ? '1' : '0.01';
+        segmentValueInput.value = mode === 'count' ? String(defaults.count) : String(defaults.threshold);
+        rerenderSegments();
+    });
+    segmentValueInput.addEventListener('input', rerenderSegments);
+}
+document.getElementById('param-outline')?.addEventListener('change', rerenderSegments);
+// The near-duplicate threshold applies to the next run, so it follows the metric select
+const metricSelect = document.getElementById('param-metric') as HTMLSelectElement | null;
+let dupeThresholdMetric = (metricSelect?.value || 'cosine') as DistanceMetric;
+metricSelect?.addEventListener('change', () => {
+    const metric = metricSelect.value as DistanceMetric;
+    const input = document.getElementById('param-dupe-threshold') as HTMLInputElement | null;
+    const value = parseFloat(input?.value ?? '');
+    if (input && Number.isFinite(value)) input.value = (Math.round(convertSimilarity(value, dupeThresholdMetric, metric) * 100) / 100).toFixed(2);
+    dupeThresholdMetric = metric;
+});
+document.getElementById('param-search')?.addEventListener('input', () => {
+    if (currentMapData) renderResult(currentMapData.sortedIndices, currentMapData.entities, false);
+    updateMapOverlays();
+});
+document.getElementById('btn-sort-selection')?.addEventListener('click', runSortSelection);
+document.getElementById('btn-clear-selection')?.addEventListener('click', () => {
+    selectedItems.clear();
+    refreshSelection();
+});
+document.getElementById('btn-export-selection')?.addEventListener('click', () => {
+    const rows = buildExportRows().filter(r => selectedItems.has(r.index));
+    if (rows.length > 0) download('semantic-sort-selection.csv', rowsToCsv(rows), 'text/csv');
+});
+
+const rerenderQueryView = () => {
+    const label = document.getElementById('val-query-threshold');
+    if (label) label.textContent = readQueryThreshold().toFixed(2);
+    if (currentMapData) renderResult(currentMapData.sortedIndices, currentMapData.entities, false);
+};
+document.getElementById('query-threshold')?.addEventListener('input', rerenderQueryView);
+document.getElementById('query-show-sim')?.addEventListener('change', rerenderQueryView);
+if (cancelBtn) {
+    cancelBtn.addEventListener('click', () => {
+        if (runRequest >= 0) send({ type: 'CANCEL', payload: { target: runRequest } });
+        setStatus('Cancelling...');
+    });
+}
+
+// Model manager: presets, models picked from disk and the downloaded model files
+const presetSelect = document.getElementById('model-preset') as HTMLSelectElement | null;
+if (presetSelect) {
+    MODEL_PRESETS.forEach(preset => {
+        const option = document.createElement('option');
+        option.value = preset.settings.modelName;
+        option.textContent = preset.label;
+        presetSelect.appendChild(option);
+    });
+    const initial = readModelSettings().modelName;
+    presetSelect.value = presetFor(initial) ? initial : '';
+    presetSelect.addEventListener('change', () => {
+        if (presetSelect.value) applyModelSettings(defaultModelSettings(presetSelect.value));
+    });
 }
+// Typing a preset's id brings its prompts and pooling along
+document.getElementById('model-name')?.addEventListener('change', () => {
+    const { modelName } = readModelSettings();
+    if (presetFor(modelName)) applyModelSettings(defaultModelSettings(modelName));
+    else setInputValue('model-preset', '');
+});
 
-function renderMatrix(entities: string[], embeddings: number[][]) {
-    const table = document.getElementById('matrix-table') as HTMLTableElement;
-    const threshIn = document.getElementById('sim-threshold') as HTMLInputElement;
-    const threshVal = document.getElementById('sim-threshold-val') as HTMLSpanElement;
-    if (!table) return;
-    const thead = table.querySelector('thead tr');
-    if (thead) thead.innerHTML = '<th class="px-5 py-4 border-b border-slate-800 font-bold uppercase tracking-widest text-slate-600 text-[12px]">UID</th>' + entities.map((_, i) => `<th class="px-3 py-4 border-b border-slate-800 text-center text-[11px] text-slate-700 font-bold">${(i+1).toString().padStart(2, '0')}</th>`).join('');
-    const tbody = table.querySelector('tbody');
-    if (tbody) tbody.innerHTML = entities.map((e, i) => `<tr class="hover:bg-slate-900 border-b border-slate-800/20"><td class="px-5 py-3 font-medium text-slate-500 whitespace-nowrap max-w-[240px] truncate cursor-pointer hover:text-blue-400 transition-colors" title="Focus entity" onclick="window.dispatchEvent(new CustomEvent('flyTo', {detail: ${i}}))"><span class="text-slate-700 font-mono text-[11px] mr-3">${(i+1).toString().padStart(2, '0')}</span><span class="text-[13px] font-medium">${e}</span></td>${entities.map((_, j) => { const s = (1 - getDistance(embeddings[i], embeddings[j])).toFixed(3); return `<td class="p-2 px-3 text-center matrix-cell transition-all duration-200 text-[12px] ${i===j ? 'bg-slate-900/50 text-white font-bold' : ''}" style="--sim: ${s}">${s}</td>`; }).join('')}</tr>`).join('');
-    if (!window['flyToListenerAttached' as any]) { window.addEventListener('flyTo', (e: any) => flyToEntity(e.detail)); (window as any)['flyToListenerAttached'] = true; }
-    if (threshIn) {
-        const update = (v: number) => { threshVal.textContent = v.toFixed(2); table.parentElement?.style.setProperty('--threshold', v.toString()); };
-        update(parseFloat(threshIn.value));
-        threshIn.oninput = (e) => update(parseFloat((e.target as HTMLInputElement).value));
+const modelFolderInput = document.getElementById('model-folder') as HTMLInputElement | null;
+document.getElementById('btn-model-folder')?.addEventListener('click', () => modelFolderInput?.click());
+if (modelFolderInput) {
+    modelFolderInput.addEventListener('change', () => {
+        const picked = Array.from(modelFolderInput.files ?? []);
+        modelFolderInput.value = '';
+        if (picked.length === 0) return;
+        // Paths relative to the picked folder: config.json, tokenizer.json, onnx/model.onnx, ...
+        const folder = picked[0].webkitRelativePath.split('/')[0] || 'model';
+        const files = picked.map(file => ({ path: file.webkitRelativePath.split('/').slice(1).join('/') || file.name, file }));
+        const paths = new Set(files.map(f => f.path));
+        if (!paths.has('config.json') || ![...paths].some(path => path.startsWith('onnx/') && path.endsWith('.onnx'))) {
+            setStatus('Error: the folder needs config.json, the tokenizer files and onnx/model*.onnx');
+            return;
+        }
+        const modelName = localModelName(folder, files.map(({ path, file }) => ({ path, size: file.size, lastModified: file.lastModified })));
+        localModel = { modelName, files };
+        lastLoadKey = '';
+        // Take the precision whose weights are there
+        const dtype: ModelDtype = paths.has('onnx/model.onnx') ? 'fp32' : paths.has('onnx/model_quantized.onnx') ? 'q8' : paths.has('onnx/model_fp16.onnx') ? 'fp16' : readModelSettings().dtype;
+        applyModelSettings({ ...readModelSettings(), modelName, dtype });
+        setStatus(`Local model: ${folder} (${files.length} files), load it with the next run`);
+    });
+}
+
+const modelCacheMenu = document.getElementById('model-cache-menu') as HTMLDetailsElement | null;
+const modelCacheList = document.getElementById('model-cache-list');
+
+async function refreshModelCacheList() {
+    if (!modelCacheList || !modelCacheMenu?.open) return;
+    let models: Awaited<ReturnType<typeof listCachedModels>> = [];
+    try {
+        models = await listCachedModels();
+    } catch (e) {
+        console.warn('Model cache unavailable', e);
+    }
+    modelCacheList.replaceChildren();
+    if (models.length === 0) {
+        modelCacheList.append(h('div', 'px-3 py-2 text-slate-700', 'No downloaded models'));
+        return;
     }
+    models.forEach(entry => {
+        const row = document.createElement('div');
+        row.className = 'flex items-center gap-2 px-3 py-1.5 hover:bg-slate-900';
+        const label = document.createElement('button');
+        label.className = 'flex-1 min-w-0 text-left truncate text-slate-300 hover:text-blue-400';
+        label.textContent = entry.modelName;
+        label.title = `${entry.files} files, click to use`;
+        label.onclick = () => applyModelSettings(defaultModelSettings(entry.modelName));
+        const size = document.createElement('span');
+        size.className = 'shrink-0';
+        size.textContent = formatModelSize(entry);
+        if (entry.unsized > 0) size.title = `${entry.unsized} of ${entry.files} files without a stored size`;
+        const deleteBtn = document.createElement('button');
+        deleteBtn.className = 'hover:text-red-400';
+        deleteBtn.textContent = 'Del';
+        deleteBtn.onclick = async () => {
+            try {
+                const removed = await deleteCachedModel(entry.modelName);
+                setStatus(`Deleted ${entry.modelName} (${removed} files, ${formatModelSize(entry)})`);
+            } catch (e) {
+                setStatus(`Error: could not delete ${entry.modelName}: ${String(e)}`);
+            }
+            refreshModelCacheList();
+        };
+        row.append(label, size, deleteBtn);
+        modelCacheList.appendChild(row);
+    });
 }
+modelCacheMenu?.addEventListener('toggle', () => refreshModelCacheList());
 
-sortBtn.addEventListener('click', runSort);
+const clearModelCacheBtn = document.getElementById('btn-clear-model-cache');
+if (clearModelCacheBtn) {
+    clearModelCacheBtn.addEventListener('click', () => {
+        send({ type: 'CLEAR_CACHE', payload: { modelName: readModelSettings().modelName } });
+    });
+}
+const clearAllCacheBtn = document.getElementById('btn-clear-all-cache');
+if (clearAllCacheBtn) {
+    clearAllCacheBtn.addEventListener('click', () => {
+        send({ type: 'CLEAR_CACHE', payload: {} });
+    });
+}
 const toggleMatrixBtn = document.getElementById('btn-toggle-matrix');
 if (toggleMatrixBtn) {
     toggleMatrixBtn.addEventListener('click', () => {
@@ -386,6 +2329,7 @@ if (toggleMatrixBtn) {
             section.classList.toggle('hidden');
             if (!section.classList.contains('hidden')) {
                 section.scrollIntoView({ behavior: 'smooth' });
+                heatmap?.render();
                 toggleMatrixBtn.textContent = 'Hide Matrix';
             } else {
                 toggleMatrixBtn.textContent = 'Display Matrix';
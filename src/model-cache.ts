@@ -0,0 +1,55 @@
+// Model files downloaded by transformers.js, which keeps them in the browser's Cache
+// Storage under their Hugging Face URL (…/<owner>/<name>/resolve/<revision>/<file>).
+const CACHE_NAME = 'transformers-cache';
+
+export interface CachedModel {
+    modelName: string;
+    files: number;
+    bytes: number;   // of the files with a known size
+    unsized: number; // files stored without Content-Length
+}
+
+const modelOf = (url: string) => url.match(/^https?:\/\/[^/]+\/(.+?)\/resolve\/[^/]+\/.+$/)?.[1] ?? null;
+
+const openCache = async () => (typeof caches === 'undefined' ? null : caches.open(CACHE_NAME));
+
+// Sizes come from Content-Length; reading the body instead would load whole weight files
+const sizeOf = async (cache: Cache, request: Request) => {
+    const response = await cache.match(request);
+    const length = Number(response?.headers.get('content-length'));
+    return Number.isFinite(length) && length > 0 ? length : null;
+};
+
+// All models with files in the cache, largest first
+export async function listCachedModels(): Promise<CachedModel[]> {
+    const cache = await openCache();
+    if (!cache) return [];
+    const models = new Map<string, CachedModel>();
+    for (const request of await cache.keys()) {
+        const modelName = modelOf(request.url);
+        if (!modelName) continue;
+        const entry = models.get(modelName) ?? { modelName, files: 0, bytes: 0, unsized: 0 };
+        const size = await sizeOf(cache, request);
+        entry.files++;
+        if (size === null) entry.unsized++;
+        else entry.bytes += size;
+        models.set(modelName, entry);
+    }
+    return [...models.values()].sort((a, b) => b.bytes - a.bytes);
+}
+
+// Removes every file of the model; resolves with the number of removed files
+export async function deleteCachedModel(modelName: string) {
+    const cache = await openCache();
+    if (!cache) return 0;
+    const requests = (await cache.keys()).filter(r => modelOf(r.url) === modelName);
+    await Promise.all(requests.map(r => cache.delete(r)));
+    return requests.length;
+}
+
+// Size of a cached model for the list, marking files whose size is not known
+export const formatModelSize = ({ bytes, unsized, files }: CachedModel) =>
+    unsized === files ? 'size unknown' : unsized > 0 ? `≥ ${formatBytes(bytes)}` : formatBytes(bytes);
+
+export const formatBytes = (bytes: number) =>
+    bytes >= 1e9 ? `${(bytes / 1e9).toFixed(2)} GB` : bytes >= 1e6 ? `${(bytes / 1e6).toFixed(1)} MB` : `${Math.round(bytes / 1e3)} kB`;
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { applyPrompt, defaultModelSettings, DEFAULT_MODEL } from './models';
+
+describe('applyPrompt', () => {
+    it('puts the text into the template', () => {
+        expect(applyPrompt('title: none | text: {text}', 'budget')).toBe('title: none | text: budget');
+    });
+
+    it('keeps replacement patterns in the text literal', () => {
+        const template = defaultModelSettings(DEFAULT_MODEL).documentPrompt;
+        expect(applyPrompt(template, 'cost $& margin')).toBe('title: none | text: cost $& margin');
+        expect(applyPrompt(template, "before $` after $'")).toBe("title: none | text: before $` after $'");
+        expect(applyPrompt(template, 'price $$5')).toBe('title: none | text: price $$5');
+    });
+
+    it('uses a template without a placeholder as a prefix', () => {
+        expect(applyPrompt('query: ', 'budget')).toBe('query: budget');
+    });
+});
@@ -0,0 +1,111 @@
+// Embedding model settings and presets, shared by the browser worker, the UI and the Node library
+
+export const DEFAULT_MODEL = 'onnx-community/embeddinggemma-300m-ONNX';
+
+export type ModelDtype = 'fp32' | 'fp16' | 'q8';
+export type Pooling = 'mean' | 'cls' | 'last_token';
+export type PromptRole = 'query' | 'document';
+
+// Models picked from disk are loaded under this prefix, e.g. local/my-model~3f2a91c0
+export const LOCAL_MODEL_PREFIX = 'local/';
+
+export interface ModelSettings {
+    modelName: string;
+    dtype: ModelDtype;
+    pooling: Pooling;
+    normalize: boolean;
+    // `{text}` is replaced by the input; a template without it is used as a prefix
+    queryPrompt: string;
+    documentPrompt: string;
+}
+
+export interface ModelPreset {
+    label: string;
+    settings: ModelSettings;
+}
+
+const PLAIN = '{text}';
+
+export const defaultModelSettings = (modelName: string = DEFAULT_MODEL): ModelSettings => {
+    const preset = presetFor(modelName);
+    return preset ? { ...preset.settings } : plainModelSettings(modelName);
+};
+
+// What every model ran with before presets existed: fp32, mean pooling, no prompts
+export const plainModelSettings = (modelName: string): ModelSettings => ({
+    modelName,
+    dtype: 'fp32',
+    pooling: 'mean',
+    normalize: true,
+    queryPrompt: PLAIN,
+    documentPrompt: PLAIN
+});
+
+// The recommended models with the prompts and pooling their model cards ask for
+export const MODEL_PRESETS: ModelPreset[] = [
+    {
+        label: 'EmbeddingGemma 300M',
+        settings: {
+            modelName: 'onnx-community/embeddinggemma-300m-ONNX',
+            dtype: 'fp32',
+            pooling: 'mean',
+            normalize: true,
+            queryPrompt: 'task: search result | query: {text}',
+            documentPrompt: 'title: none | text: {text}'
+        }
+    },
+    {
+        label: 'Qwen3-Embedding 0.6B',
+        settings: {
+            modelName: 'onnx-community/Qwen3-Embedding-0.6B-ONNX',
+            dtype: 'fp32',
+            pooling: 'last_token',
+            normalize: true,
+            queryPrompt: 'Instruct: Given a web search query, retrieve relevant passages that answer the query\nQuery:{text}',
+            documentPrompt: PLAIN
+        }
+    }
+];
+
+export const presetFor = (modelName: string) => MODEL_PRESETS.find(p => p.settings.modelName === modelName);
+
+// The text goes in through a function: as a replacement string `$&`, `$'` and the like
+// in an item would be expanded
+export const applyPrompt = (template: string, text: string) =>
+    !template || template === PLAIN ? text : template.includes(PLAIN) ? template.replace(PLAIN, () => text) : template + text;
+
+// Key of the vectors a setting produces for one role, used by the embedding cache.
+// Plain fp32 settings keep the key of caches written before the model manager existed.
+export const embeddingKey = (settings: ModelSettings, role: PromptRole = 'document') => {
+    const prompt = role === 'query' ? settings.queryPrompt : settings.documentPrompt;
+    let key = `${settings.pooling}:${settings.normalize ? 'norm' : 'raw'}`;
+    if (settings.dtype !== 'fp32') key += `:${settings.dtype}`;
+    if (prompt && prompt !== PLAIN) key += `|${prompt}`;
+    return key;
+};
+
+// Settings that need the model to be loaded again; pooling and prompts do not
+export const loadKey = (settings: ModelSettings, device: string) => `${settings.modelName}\u0000${settings.dtype}\u0000${device}`;
+
+export const isLocalModel = (modelName: string) => modelName.startsWith(LOCAL_MODEL_PREFIX);
+
+// Name of a model picked from disk. The folder name alone would let cached embeddings
+// of an older export stand in for a changed one, so the name carries a fingerprint
+// (FNV-1a) of the size and modification time of its weights and config.json.
+export function localModelName(folder: string, files: { path: string; size: number; lastModified: number }[]) {
+    let hash = 0x811c9dc5;
+    files
+        .filter(f => f.path === 'config.json' || (f.path.startsWith('onnx/') && f.path.endsWith('.onnx')))
+        .map(f => `${f.path}:${f.size}:${f.lastModified}`)
+        .sort()
+        .forEach(entry => {
+            for (let i = 0; i < entry.length; i++) hash = Math.imul(hash ^ entry.charCodeAt(i), 0x01000193);
+        });
+    return `${LOCAL_MODEL_PREFIX}${folder}~${(hash >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+// Short name for lists and headers: the preset's label, else the last part of the id
+export const modelLabel = (settings: ModelSettings) => {
+    const name = presetFor(settings.modelName)?.label ?? settings.modelName.split('/').pop() ?? settings.modelName;
+    return settings.dtype === 'fp32' ? name : `${name} (${settings.dtype})`;
+};
@@ -0,0 +1,386 @@
+// The sorting pipeline without any browser or worker dependencies: embedding, the
+// VRP problem construction and the large-list path. The web worker and the Node library (lib.ts) both drive
+// it, each with their own way of running the solver.
+import { get_routing_locations } from './vrp-pkg/vrp_cli.js';
+import { buildSections, noGrouping, type Grouping, type Section } from './sections';
+import { anchorLegs, applyConstraints, emptyConstraints, type Leg, type SortConstraints } from './constraints';
+import { defaultSolverSettings, pickSolverPath, type SolverPath, type SolverSettings } from './solver-settings';
+import { knnGraph, greedyFragments, joinFragments, improveSweep, swapSweep, splitPath } from './heuristic';
+import { embeddingDistances, matrixDistances, type DistanceFn, type DistanceMetric, type PackedEmbeddings } from './distance';
+import { applyPrompt, defaultModelSettings, type ModelSettings, type PromptRole } from './models';
+
+// Runs one pragmatic problem through vrp-cli and resolves with the parsed solution
+export type SolveFn = (problem: any, matrices: any, settings: SolverSettings) => Promise<any>;
+
+export interface SolveOptions {
+    constraints?: SortConstraints;
+    grouping?: Grouping;
+    solver?: SolverSettings;
+    // Distances from a query to every item; 'depot' departs from the query itself
+    query?: { distances: Float32Array; mode: 'closest' | 'depot' } | null;
+    embeddings?: PackedEmbeddings;      // needed for the heuristic path's neighbour graph
+    metric?: DistanceMetric;            // distances from `embeddings` when there is no matrix
+    checkpoint?: () => void;            // called between stages, throws to cancel
+    onStatus?: (message: string) => void;
+}
+
+export interface SolvedOrder {
+    sortedIndices: number[];
+    sections: Section[] | null;
+    path: SolverPath;
+}
+
+// The solver returned no tours at all
+export class NoSolutionError extends Error {}
+
+const encodeLoc = (idx: number) => ({ lat: Math.floor(idx / 1000), lng: idx % 1000 });
+const decodeLoc = (loc: any) => Math.round(loc.lat * 1000 + loc.lng);
+
+// Embeds texts batch by batch, wrapped in the model's prompt for `role`. `onBatch` runs
+// after every batch, e.g. to persist vectors or report progress, and may throw to stop early.
+export async function embedTexts(
+    extractor: any,
+    texts: string[],
+    batchSize: number,
+    onBatch?: (batch: string[], vectors: number[][], done: number) => void | Promise<void>,
+    model: ModelSettings = defaultModelSettings(),
+    role: PromptRole = 'document'
+) {
+    const out: number[][] = [];
+    const size = Math.max(1, Math.floor(batchSize));
+    const template = role === 'query' ? model.queryPrompt : model.documentPrompt;
+    for (let start = 0; start < texts.length; start += size) {
+        const batch = texts.slice(start, start + size);
+        const output = await extractor(batch.map(t => applyPrompt(template, t)), { pooling: model.pooling, normalize: model.normalize });
+        const vectors: number[][] = output.tolist();
+        out.push(...vectors);
+        await onBatch?.(batch, vectors, out.length);
+    }
+    return out;
+}
+
+// Orders the entities along the shortest path through the distance matrix, with the
+// VRP solver or, for large lists, the heuristic path (see `pickSolverPath`). The
+// heuristic path needs no matrix: pass null and it computes distances from `embeddings`.
+// vrp-cli must be initialized before, `get_routing_locations` runs in-process.
+export async function solveOrder(entities: string[], matrix: Float32Array | null, options: SolveOptions, solve: SolveFn): Promise<SolvedOrder> {
+    let constraints = options.constraints ?? emptyConstraints();
+    const grouping = options.grouping ?? noGrouping();
+    const solver = options.solver ?? defaultSolverSettings();
+    const queryDistances = options.query?.distances ?? null;
+    const n = entities.length;
+
+    // Sections always depart from the virtual depot, so they can only use the depot mode
+    const queryAsDepot = queryDistances !== null && (options.query!.mode === 'depot' || grouping.mode !== 'none');
+    if (queryDistances && !queryAsDepot && constraints.start === null) {
+        let closest = 0;
+        queryDistances.forEach((d, i) => { if (d < queryDistances[closest]) closest = i; });
+        constraints = { ...constraints, start: closest };
+    }
+
+    // A round trip needs a real first item to return to. Without anchors the first line
+    // only serves the solve and the cycle is cut afterwards (see `cutCycle`).
+    const closed = solver.closed && grouping.mode === 'none';
+    const cut = closed && constraints.start === null && constraints.end === null && constraints.pinned.length === 0;
+    if (closed && constraints.start === null) {
+        constraints = { ...constraints, start: 0 };
+    }
+    const fixed = new Set<number>(constraints.pinned.map(p => p.index));
+    if (constraints.start !== null) fixed.add(constraints.start);
+    if (constraints.end !== null) fixed.add(constraints.end);
+    const freeIndices = entities.map((_, idx) => idx).filter(idx => !fixed.has(idx));
+    const grouped = grouping.mode !== 'none' && freeIndices.length > 1;
+
+    const path = options.embeddings ? pickSolverPath(n, solver) : 'vrp';
+    if (!matrix && path !== 'heuristic') throw new Error('The VRP path needs the distance matrix');
+    const dist = matrix ? matrixDistances(matrix, n) : embeddingDistances(options.embeddings!, options.metric);
+    // Sections are one path split by the solver; anchors are not combined with them
+    const legs = grouped ? [{ from: constraints.start, to: constraints.end, size: freeIndices.length }] : anchorLegs(n, constraints, closed);
+    const problem: TourProblem = { n, dist, freeIndices, legs, grouping, grouped, queryDistances: queryAsDepot ? queryDistances : null };
+    const tours = path === 'heuristic'
+        ? await heuristicTours(problem, options.embeddings!, solver, options, solve)
+        : await vrpTours(problem, solver, options, solve);
+
+    if (grouped) {
+        const sections = buildSections(tours, entities, dist);
+        return { sortedIndices: sections.flatMap(sec => sec.indices), sections, path };
+    }
+    const sortedIndices = applyConstraints(n, tours.flat(), constraints);
+    return { sortedIndices: cut ? cutCycle(sortedIndices, dist, queryAsDepot ? queryDistances : null) : sortedIndices, sections: null, path };
+}
+
+// Where a round trip without a pinned start begins: at the item closest to the query
+// when it departs from the query, else behind the weakest transition of the cycle
+function cutCycle(order: number[], dist: DistanceFn, queryDistances: Float32Array | null) {
+    let at = 0;
+    if (queryDistances) {
+        order.forEach((idx, k) => { if (queryDistances[idx] < queryDistances[order[at]]) at = k; });
+    } else {
+        let weakest = -Infinity;
+        order.forEach((idx, k) => {
+            const d = dist(order[(k + order.length - 1) % order.length], idx);
+            if (d > weakest) { weakest = d; at = k; }
+        });
+    }
+    return [...order.slice(at), ...order.slice(0, at)];
+}
+
+// Normalized input of one solve: anchors resolved into legs, free items listed
+interface TourProblem {
+    n: number;
+    dist: DistanceFn;
+    freeIndices: number[];
+    legs: Leg[];          // the free runs between anchors, in order (see `anchorLegs`)
+    grouping: Grouping;
+    grouped: boolean;
+    queryDistances: Float32Array | null; // set when the query is the starting point
+}
+
+// Orders of the free items: one per leg, or one per vehicle (section) when grouped.
+// Every leg is a vehicle of its own that runs from the anchor before the leg to the one
+// after it and has to take exactly as many items as the leg has slots.
+async function vrpTours(input: TourProblem, solver: SolverSettings, options: SolveOptions, solve: SolveFn) {
+    const { n, dist, freeIndices, legs, grouping, grouped, queryDistances } = input;
+    const checkpoint = options.checkpoint ?? (() => {});
+    const queryAsDepot = queryDistances !== null;
+
+    // A leg without an anchor in front departs from a virtual depot (index n) that is
+    // zero distance from every entity, so the solver is free to choose the first item.
+    const depot = n;
+
+    const jobs = freeIndices.map(idx => ({
+        id: `job_${idx}`,
+        deliveries: [{
+            places: [{
+                location: encodeLoc(idx),
+                duration: 0
+            }],
+            demand: [1]
+        }]
+    }));
+
+    const shiftOf = (leg: Leg) => {
+        const shift: any = {
+            start: { earliest: "2024-01-01T00:00:00Z", location: encodeLoc(leg.from ?? depot) },
+        };
+        if (leg.to !== null) {
+            shift.end = { latest: "2099-12-31T00:00:00Z", location: encodeLoc(leg.to) };
+        }
+        return shift;
+    };
+
+    // Grouped mode: one vehicle per section. 'count' forces K tours through capacity,
+    // 'capacity' caps the tour size and charges a fixed cost per tour so the solver
+    // only opens a new section where it saves more than a weak transition would cost.
+    let vehicleCount = 1;
+    let capacity = Math.max(1000, jobs.length);
+    let fixedCost = 0;
+    if (grouped && grouping.mode === 'count') {
+        vehicleCount = Math.max(1, Math.min(grouping.count, jobs.length));
+        capacity = Math.ceil(jobs.length / vehicleCount);
+    } else if (grouped && grouping.mode === 'capacity') {
+        capacity = Math.max(1, grouping.maxSize);
+        vehicleCount = Math.min(jobs.length, Math.ceil(jobs.length / capacity) * 2);
+        fixedCost = 5000;
+    }
+
+    const vehicles = grouped ? [{
+        typeId: "vehicle",
+        vehicleIds: Array.from({ length: vehicleCount }, (_, k) => `v${k + 1}`),
+        profile: { matrix: "car" },
+        costs: { fixed: fixedCost, distance: 1, time: 0 },
+        shifts: [shiftOf(legs[0])],
+        capacity: [capacity]
+    }] : legs.map((leg, k) => ({
+        typeId: `leg${k + 1}`,
+        vehicleIds: [`leg${k + 1}`],
+        profile: { matrix: "car" },
+        costs: { fixed: 0, distance: 1, time: 0 },
+        shifts: [shiftOf(leg)],
+        capacity: [leg.size]
+    }));
+
+    const problem = {
+        plan: { jobs },
+        fleet: {
+            vehicles,
+            profiles: [{ name: "car" }]
+        }
+    };
+
+    // Legs keep their order whatever order the solver reports its tours in
+    const tours: number[][] = grouped ? [] : legs.map(() => []);
+    const legIndex = new Map(legs.map((_, k) => [`leg${k + 1}`, k]));
+    if (jobs.length > 0) {
+        // Routing locations & matrix. Note: the WASM output is JSON
+        const routingLocations = JSON.parse(get_routing_locations(problem));
+
+        const size = routingLocations.length;
+        const distances: number[] = [];
+
+        // Entity index per routing location; the virtual depot maps to -1
+        const locIdx = routingLocations.map((loc: any) => {
+            const idx = decodeLoc(loc);
+            return idx >= 0 && idx < n ? idx : -1;
+        });
+
+        for (let i = 0; i < size; i++) {
+            const a = locIdx[i];
+            for (let j = 0; j < size; j++) {
+                const b = locIdx[j];
+                if (a < 0 && b >= 0 && queryAsDepot) {
+                    // Leaving a query depot costs the distance to the query
+                    distances.push(Math.round(queryDistances![b] * 10000));
+                } else {
+                    // Otherwise distance to and from the virtual depot is free
+                    distances.push(a < 0 || b < 0 ? 0 : Math.round(dist(a, b) * 10000));
+                }
+            }
+        }
+
+        const matrixData = [{
+            matrix: "car",
+            distances: distances,
+            travelTimes: distances
+        }];
+
+        checkpoint();
+        options.onStatus?.('Solving TSP (WASM)...');
+
+        const solution = await solve(problem, matrixData, solver);
+
+        if (!solution.tours || solution.tours.length === 0) {
+            throw new NoSolutionError('No solution found.');
+        }
+
+        const free = new Set(freeIndices);
+        const assigned = new Set<number>();
+
+        solution.tours.forEach((tour: any) => {
+            const order: number[] = [];
+            tour.stops.forEach((stop: any) => {
+                const locationIdx = decodeLoc(stop.location);
+                if (free.has(locationIdx) && !assigned.has(locationIdx)) {
+                    order.push(locationIdx);
+                    assigned.add(locationIdx);
+                }
+            });
+            if (grouped) tours.push(order);
+            else tours[legIndex.get(tour.vehicleId) ?? legs.length - 1].push(...order);
+        });
+        // Unassigned jobs (should not happen) keep their input order at the tail
+        const unassigned = freeIndices.filter(idx => !assigned.has(idx));
+        if (unassigned.length > 0) tours.push(unassigned);
+    }
+
+    return tours;
+}
+
+const pause = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Large lists: neighbour graph, greedy construction and local search, optionally
+// followed by VRP re-solves of windows of the path. With anchors in between, the path
+// is cut into the legs' runs and each run is improved between its own two anchors.
+async function heuristicTours(problem: TourProblem, embeddings: PackedEmbeddings, solver: SolverSettings, options: SolveOptions, solve: SolveFn) {
+    const { n, dist: itemDist, freeIndices, legs, grouping, grouped, queryDistances } = problem;
+    const checkpoint = options.checkpoint ?? (() => {});
+    const status = options.onStatus ?? (() => {});
+    const deadline = solver.maxTime > 0 ? performance.now() + solver.maxTime * 1000 : Infinity;
+    if (legs.length === 0) return [];
+
+    // Virtual nodes: the depot (n) starts a path that has no anchor in front, and a copy
+    // of the first item (n + 1) ends a path that returns to it (a round trip)
+    const depot = n, closing = n + 1;
+    const home = legs[legs.length - 1].to;
+    const dist: DistanceFn = (a, b) => {
+        if (a === closing) a = home!;
+        if (b === closing) b = home!;
+        if (a === depot || b === depot) return a === depot && b !== depot && queryDistances ? queryDistances[b] : 0;
+        return itemDist(a, b);
+    };
+    const ends = (from: number | null, to: number | null): [number, number | null] => {
+        const start = from ?? depot;
+        return [start, to === null ? null : to === start ? closing : to];
+    };
+    const improve = async (run: number[], lockLast: boolean) => {
+        const sweep = { lockFirst: true, lockLast, deadline };
+        while (performance.now() < deadline && improveSweep(run, graph, dist, sweep)) {
+            await pause();
+            checkpoint();
+        }
+    };
+
+    status('Building neighbour graph...');
+    const graph = knnGraph(embeddings, dist, 10, { seed: solver.seed ?? 1 });
+    checkpoint();
+
+    status('Constructing tour...');
+    const [start, end] = ends(legs[0].from, home);
+    const path = joinFragments(greedyFragments(freeIndices, graph, dist), start, dist);
+    if (end !== null) path.push(end);
+
+    status('Improving tour (2-opt / Or-opt)...');
+    const free = new Set(freeIndices);
+    let runs = [path];
+    if (legs.length === 1) {
+        await improve(path, end !== null);
+    } else {
+        const order = path.filter(idx => free.has(idx));
+        let at = 0;
+        runs = legs.map(leg => {
+            const [from, to] = ends(leg.from, leg.to);
+            const run = [from, ...order.slice(at, at += leg.size)];
+            if (to !== null) run.push(to);
+            return run;
+        });
+        const lockLast = legs.map(leg => leg.to !== null);
+        do {
+            for (const [k, run] of runs.entries()) await improve(run, lockLast[k]);
+            checkpoint();
+        } while (performance.now() < deadline && swapSweep(runs, lockLast, graph, dist, deadline));
+    }
+
+    const window = Math.floor(solver.polishWindow ?? 0);
+    if (window >= 4) {
+        for (const run of runs) await polishWindows(run, window, dist, solver, options, solve);
+    }
+
+    // Only free items are returned; anchors and virtual nodes are placed by the caller
+    const orders = runs.map(run => run.filter(idx => free.has(idx)));
+    return grouped ? splitPath(orders[0], dist, grouping) : orders;
+}
+
+const pathLength = (path: number[], dist: DistanceFn) => path.slice(1).reduce((sum, b, i) => sum + dist(path[i], b), 0);
+
+// Re-solves consecutive windows of the path with the VRP solver. Both ends of a window
+// stay in place, so windows can be replaced independently; a worse result is dropped.
+async function polishWindows(path: number[], window: number, dist: DistanceFn, solver: SolverSettings, options: SolveOptions, solve: SolveFn) {
+    const checkpoint = options.checkpoint ?? (() => {});
+    const windowSolver: SolverSettings = {
+        ...solver,
+        maxTime: Math.min(solver.maxTime || 1, 1),
+        maxGenerations: Math.min(solver.maxGenerations || 200, 200),
+        closed: false
+    };
+    const count = Math.ceil((path.length - 1) / (window - 1));
+    for (let w = 0, from = 0; from + 3 < path.length; w++, from += window - 1) {
+        checkpoint();
+        options.onStatus?.(`Polishing window ${w + 1}/${count} with VRP...`);
+        const ids = path.slice(from, from + window);
+        const m = ids.length;
+        const inner = Array.from({ length: m - 2 }, (_, i) => i + 1);
+        const tours = await vrpTours({
+            n: m,
+            dist: (a, b) => dist(ids[a], ids[b]),
+            freeIndices: inner,
+            legs: [{ from: 0, to: m - 1, size: m - 2 }],
+            grouping: noGrouping(),
+            grouped: false,
+            queryDistances: null
+        }, windowSolver, options, solve);
+        const polished = [ids[0], ...tours.flat().map(i => ids[i]), ids[m - 1]];
+        if (polished.length === m && pathLength(polished, dist) < pathLength(ids, dist) - 1e-9) {
+            path.splice(from, m, ...polished);
+        }
+    }
+}
@@ -0,0 +1,12 @@
+import { project } from './projection';
+
+const ctx: Worker = self as any;
+
+ctx.onmessage = (e) => {
+    const { embeddings, settings } = e.data;
+    try {
+        ctx.postMessage({ type: 'PROJECTED', payload: project(embeddings, settings) });
+    } catch (err) {
+        ctx.postMessage({ type: 'ERROR', payload: String(err) });
+    }
+};
@@ -0,0 +1,82 @@
+// Projection of the embeddings for the semantic map. It only drives the visualization,
+// the sort itself always works on the full vectors.
+import { UMAP } from 'umap-js';
+import { seededRandom } from './random';
+
+export type ProjectionMethod = 'umap' | 'pca';
+
+export interface ProjectionSettings {
+    method: ProjectionMethod;
+    dimensions: 2 | 3;
+    nNeighbors: number;
+    minDist: number;
+    spread: number;
+    seed: number | null; // null: a different UMAP layout on every run
+}
+
+export const defaultProjectionSettings = (): ProjectionSettings => ({
+    method: 'umap',
+    dimensions: 2,
+    nNeighbors: 15,
+    minDist: 0.1,
+    spread: 1.0,
+    seed: null
+});
+
+export function project(embeddings: number[][], settings: ProjectionSettings): number[][] {
+    const n = embeddings.length;
+    if (n === 0) return [];
+    // Too few points for a neighbourhood graph: lay them out on a line
+    if (n < 3) return embeddings.map((_, i) => [i, ...new Array(settings.dimensions - 1).fill(0)]);
+    if (settings.method === 'pca') return pca(embeddings, settings.dimensions);
+
+    const umap = new UMAP({
+        nComponents: settings.dimensions,
+        nNeighbors: Math.max(2, Math.min(settings.nNeighbors, n - 1)), // Adjust for small datasets
+        minDist: settings.minDist,
+        spread: settings.spread,
+        ...(settings.seed !== null ? { random: seededRandom(settings.seed) } : {})
+    });
+    return umap.fit(embeddings);
+}
+
+// Principal components by power iteration with deflation. No randomness: the start
+// vector is fixed and each axis is flipped so its largest score is positive.
+function pca(embeddings: number[][], k: number, iterations = 100): number[][] {
+    const n = embeddings.length, d = embeddings[0].length;
+    const mean = new Float64Array(d);
+    embeddings.forEach(v => v.forEach((x, j) => { mean[j] += x / n; }));
+    const X = embeddings.map(v => Float64Array.from(v, (x, j) => x - mean[j]));
+
+    const out = embeddings.map(() => new Array(k).fill(0));
+    const components: Float64Array[] = [];
+    for (let c = 0; c < k; c++) {
+        let v = Float64Array.from({ length: d }, (_, j) => 1 / (j + 1));
+        for (let it = 0; it < iterations; it++) {
+            // v <- Xᵀ X v, then remove the directions already found
+            const next = new Float64Array(d);
+            X.forEach(row => {
+                let s = 0;
+                for (let j = 0; j < d; j++) s += row[j] * v[j];
+                for (let j = 0; j < d; j++) next[j] += row[j] * s;
+            });
+            components.forEach(u => {
+                let s = 0;
+                for (let j = 0; j < d; j++) s += next[j] * u[j];
+                for (let j = 0; j < d; j++) next[j] -= s * u[j];
+            });
+            let norm = 0;
+            for (let j = 0; j < d; j++) norm += next[j] * next[j];
+            norm = Math.sqrt(norm);
+            if (norm < 1e-12) break;
+            for (let j = 0; j < d; j++) next[j] /= norm;
+            v = next;
+        }
+        components.push(v);
+        const scores = X.map(row => row.reduce((s, x, j) => s + x * v[j], 0));
+        const peak = scores.reduce((best, s) => (Math.abs(s) > Math.abs(best) ? s : best), 0);
+        const sign = peak < 0 ? -1 : 1;
+        scores.forEach((s, i) => { out[i][c] = s * sign; });
+    }
+    return out;
+}
@@ -0,0 +1,38 @@
+import ProjectionWorker from './projection-worker?worker';
+import type { ProjectionSettings } from './projection';
+
+let activeProjection: { worker: Worker; reject: (e: Error) => void } | null = null;
+
+// Projects in a worker of its own, so a long UMAP run does not hold up the sort
+// worker's messages (CANCEL, SORT). A new projection replaces a running one.
+export function projectInWorker(embeddings: number[][], settings: ProjectionSettings): Promise<number[][]> {
+    abortProjection();
+    return new Promise((resolve, reject) => {
+        const projector = new ProjectionWorker();
+        activeProjection = { worker: projector, reject };
+        const done = () => {
+            projector.terminate();
+            if (activeProjection?.worker === projector) activeProjection = null;
+        };
+        projector.onmessage = (e) => {
+            done();
+            if (e.data.type === 'PROJECTED') resolve(e.data.payload);
+            else reject(new Error(e.data.payload));
+        };
+        projector.onerror = (e) => {
+            done();
+            reject(new Error(e.message));
+        };
+        projector.postMessage({ embeddings, settings });
+    });
+}
+
+// Stops a running projection and rejects its promise
+export function abortProjection() {
+    if (activeProjection) {
+        const { worker, reject } = activeProjection;
+        activeProjection = null;
+        worker.terminate();
+        reject(new Error('Projection replaced'));
+    }
+}
@@ -0,0 +1,155 @@
+// Message contract between the UI (or any other host page) and worker.ts.
+// Every message is an envelope `{ v, id, type, payload }`. Requests carry a fresh id;
+// responses carry the id of the request they answer, so a host can drop anything
+// that belongs to a run it has already given up on.
+import type { DistanceMetric } from './distance';
+import type { Grouping, Section } from './sections';
+import type { SortConstraints } from './constraints';
+import type { SolverPath, SolverSettings } from './solver-settings';
+import type { ProjectionSettings } from './projection';
+import type { DuplicateGroup } from './duplicates';
+import type { ModelSettings } from './models';
+
+export const PROTOCOL_VERSION = 4;
+
+export type Stage = 'load' | 'embed' | 'matrix' | 'solve' | 'project';
+
+// Milliseconds spent per stage of one request
+export type StageTimings = Partial<Record<Stage, number>>;
+
+export type ErrorCode =
+    | 'NOT_READY'          // SORT/INSERT/FIND_DUPLICATES before a successful INIT
+    | 'SOLVER_INIT_FAILED' // the vrp-cli wasm could not be loaded
+    | 'MODEL_LOAD_FAILED'  // the embedding model could not be loaded
+    | 'EMBED_FAILED'
+    | 'NO_SOLUTION'
+    | 'SOLVE_FAILED'
+    | 'PROJECTION_FAILED'
+    | 'CACHE_FAILED'
+    | 'BAD_REQUEST'        // unknown type, unsupported protocol version or a list too large for the request
+    | 'INTERNAL';
+
+export interface WorkerError {
+    code: ErrorCode;
+    message: string;
+    stage?: Stage;
+}
+
+export type QueryMode = 'closest' | 'depot';
+
+// Free-text prompt a run was ordered against, with its similarity to every entity
+export interface QueryAnchor {
+    text: string;
+    mode: QueryMode;
+    similarities: number[];
+    distances: number[]; // places the query among its nearest neighbours on the map
+}
+
+export interface SortRequest {
+    entities: string[];
+    constraints: SortConstraints;
+    batchSize: number;
+    metric: DistanceMetric;
+    grouping: Grouping;
+    solver: SolverSettings;
+    query: { text: string; mode: QueryMode } | null;
+}
+
+export interface InsertRequest {
+    entities: string[];              // the current result
+    embeddings: number[][] | null;   // their vectors, if still known
+    coordinates: number[][];
+    tours: number[][];               // current order, one tour per section
+    added: string[];
+    constraints: SortConstraints;
+    locked: number[];                // items the user locked at their current position
+    metric: DistanceMetric;
+    batchSize: number;
+    window: number;
+}
+
+// Sorts the same list with every model, then once more on their averaged distances
+export interface CompareRequest {
+    entities: string[];
+    models: ModelSettings[];         // the first one is the loaded model
+    device: string;
+    constraints: SortConstraints;
+    batchSize: number;
+    metric: DistanceMetric;
+    solver: SolverSettings;
+}
+
+export interface ModelOrder {
+    model: ModelSettings;
+    sortedIndices: number[];
+    embeddings: number[][];
+    matrix: Float32Array;
+}
+
+export interface ComparedPayload {
+    entities: string[];
+    metric: DistanceMetric;
+    orders: ModelOrder[];
+    combined: { sortedIndices: number[]; matrix: Float32Array };
+    timings: StageTimings;
+}
+
+// A model file picked from disk, `path` relative to the model folder (config.json, onnx/model.onnx, ...)
+export interface LocalModelFile {
+    path: string;
+    file: File;
+}
+
+export type WorkerRequest =
+    | { type: 'INIT'; payload: { model: ModelSettings; device: string; files?: LocalModelFile[] } }
+    | { type: 'SORT'; payload: SortRequest }
+    | { type: 'INSERT'; payload: InsertRequest }
+    | { type: 'PROJECT'; payload: { embeddings: number[][]; settings: ProjectionSettings } }
+    | { type: 'COMPARE'; payload: CompareRequest }
+    | { type: 'FIND_DUPLICATES'; payload: { entities: string[]; batchSize: number; metric: DistanceMetric; threshold: number } }
+    | { type: 'CANCEL'; payload: { target: number } } // id of the request to stop
+    | { type: 'CLEAR_CACHE'; payload: { modelName?: string } };
+
+export interface SortedPayload {
+    sortedIndices: number[];
+    embeddings: number[][];
+    entities: string[];
+    reused: number;                  // embeddings taken from the cache
+    metric: DistanceMetric;
+    // n×n distances. Null on the large-list path, which sends only `transitions`:
+    // the distance from every item of `sortedIndices` to the next
+    matrix: Float32Array | null;
+    transitions?: number[];
+    sections: Section[] | null;
+    query: QueryAnchor | null;
+    timings: StageTimings;
+    solverPath?: SolverPath;         // which path ordered a full sort
+    // Insertions only
+    coordinates?: number[][] | null; // null: project the grown list from scratch
+    sectionTours?: number[][] | null; // the tours sent in, after insertion
+    inserted?: number;
+}
+
+export type WorkerResponse =
+    | { type: 'READY'; payload: { modelName: string; device: string; reloaded: boolean; timings: StageTimings } }
+    | { type: 'STAGE'; payload: { stage: Stage; message: string } }
+    | { type: 'PROGRESS'; payload: any } // model download events from transformers.js
+    | { type: 'EMBED_PROGRESS'; payload: { done: number; total: number } }
+    | { type: 'SORTED'; payload: SortedPayload }
+    | { type: 'COMPARED'; payload: ComparedPayload }
+    | { type: 'PROJECTED'; payload: { coordinates: number[][]; settings: ProjectionSettings; timings: StageTimings } }
+    | { type: 'DUPLICATES'; payload: { groups: DuplicateGroup[]; similarities: number[][][]; timings: StageTimings } } // per group, member × member
+    | { type: 'CANCELLED'; payload: Record<string, never> }
+    | { type: 'CACHE_CLEARED'; payload: { modelName?: string; removed: number } }
+    | { type: 'ERROR'; payload: WorkerError };
+
+export type Envelope<T> = T & { v: number; id: number };
+
+export type RequestMessage = Envelope<WorkerRequest>;
+export type ResponseMessage = Envelope<WorkerResponse>;
+
+export const envelope = <T extends WorkerRequest | WorkerResponse>(id: number, message: T): Envelope<T> =>
+    ({ v: PROTOCOL_VERSION, id, ...message });
+
+export const formatTimings = (timings: StageTimings) =>
+    (Object.entries(timings) as [Stage, number][]).map(([stage, ms]) => `${stage} ${ms.toFixed(0)}ms`).join(' · ');
@@ -0,0 +1,82 @@
+// Quality metrics for an order, computed from the distance between items.
+import type { DistanceFn } from './distance';
+
+export interface Transition {
+    rank: number; // position of `from` in the order
+    from: number;
+    to: number;
+    distance: number;
+}
+
+export interface OrderStats {
+    cost: number;          // total path length (sum of transition distances)
+    transitions: Transition[];
+}
+
+export interface QualityReport {
+    sorted: OrderStats;
+    path: number;          // the whole order, across section breaks: what the baselines are compared with
+    input: number;
+    greedy: number | null; // null when skipped, it looks at every pair
+    random: number;        // mean over several shuffles
+}
+
+// Transitions along the order; `breaks` marks positions where a new section starts
+export function orderStats(order: number[], dist: DistanceFn, breaks?: Set<number>): OrderStats {
+    const transitions: Transition[] = [];
+    let cost = 0;
+    for (let i = 0; i < order.length - 1; i++) {
+        if (breaks?.has(i + 1)) continue;
+        const distance = dist(order[i], order[i + 1]);
+        cost += distance;
+        transitions.push({ rank: i, from: order[i], to: order[i + 1], distance });
+    }
+    return { cost, transitions };
+}
+
+export const pathCost = (order: number[], dist: DistanceFn) => orderStats(order, dist).cost;
+
+export function greedyOrder(dist: DistanceFn, n: number, start = 0) {
+    const visited = new Uint8Array(n);
+    const order = [start];
+    visited[start] = 1;
+    let current = start;
+    for (let step = 1; step < n; step++) {
+        let best = -1, bestDist = Infinity;
+        for (let j = 0; j < n; j++) {
+            if (visited[j]) continue;
+            const d = dist(current, j);
+            if (d < bestDist) { bestDist = d; best = j; }
+        }
+        visited[best] = 1;
+        order.push(best);
+        current = best;
+    }
+    return order;
+}
+
+export function shuffledOrder(n: number) {
+    const order = Array.from({ length: n }, (_, i) => i);
+    for (let i = n - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+    }
+    return order;
+}
+
+// `greedy: false` skips the nearest-neighbour baseline, which is quadratic in the list size
+export function buildQualityReport(order: number[], dist: DistanceFn, breaks?: Set<number>, options: { greedy?: boolean; randomSamples?: number } = {}): QualityReport {
+    const n = order.length;
+    const randomSamples = options.randomSamples ?? 20;
+    const identity = Array.from({ length: n }, (_, i) => i);
+    let random = 0;
+    for (let k = 0; k < randomSamples; k++) random += pathCost(shuffledOrder(n), dist);
+    const sorted = orderStats(order, dist, breaks);
+    return {
+        sorted,
+        path: breaks && breaks.size > 0 ? pathCost(order, dist) : sorted.cost,
+        input: pathCost(identity, dist),
+        greedy: options.greedy === false ? null : pathCost(greedyOrder(dist, n, order[0]), dist),
+        random: random / randomSamples
+    };
+}
@@ -0,0 +1,41 @@
+// mulberry32: small, fast and good enough for seeding; yields unsigned 32-bit integers
+export const seededUint32 = (seed: number) => {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6D2B79F5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0);
+    };
+};
+
+// Same generator as floats in [0, 1), the shape Math.random has
+export const seededRandom = (seed: number) => {
+    const next = seededUint32(seed);
+    return () => next() / 4294967296;
+};
+
+// vrp-cli draws all entropy through crypto.getRandomValues and seeds its RNG once per
+// wasm instance. Shadows the method on the crypto object with the seeded generator;
+// the returned restore removes the shadow again, so call it in a finally.
+export const seedCryptoRandom = (seed: number) => {
+    const next = seededUint32(seed);
+    const crypto = globalThis.crypto;
+    const seeded = <T extends ArrayBufferView | null>(array: T): T => {
+        if (array) {
+            const bytes = new Uint8Array(array.buffer, array.byteOffset, array.byteLength);
+            for (let i = 0; i < bytes.length; i += 4) {
+                const v = next();
+                for (let b = 0; b < 4 && i + b < bytes.length; b++) bytes[i + b] = (v >>> (b * 8)) & 0xff;
+            }
+        }
+        return array;
+    };
+    const own = Object.getOwnPropertyDescriptor(crypto, 'getRandomValues');
+    Object.defineProperty(crypto, 'getRandomValues', { value: seeded, configurable: true, writable: true });
+    return () => {
+        if (own) Object.defineProperty(crypto, 'getRandomValues', own);
+        else delete (crypto as { getRandomValues?: unknown }).getRandomValues;
+    };
+};
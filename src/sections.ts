@@ -0,0 +1,62 @@
+// Grouping of the sorted list into sections, one per VRP tour.
+import type { DistanceFn } from './distance';
+
+export type GroupingMode = 'none' | 'count' | 'capacity';
+
+export interface Grouping {
+    mode: GroupingMode;
+    count: number;   // number of sections for 'count'
+    maxSize: number; // maximum items per section for 'capacity'
+}
+
+export interface Section {
+    name: string;
+    indices: number[];
+}
+
+export const noGrouping = (): Grouping => ({ mode: 'none', count: 1, maxSize: 0 });
+
+// Groups larger than this are scored on an evenly spaced sample of their members, so
+// naming stays cheap when the distances are computed from the vectors
+const MEDOID_SAMPLE = 256;
+
+// Most central member: smallest summed distance to all other members
+export function medoid(indices: number[], dist: DistanceFn) {
+    const sample = indices.length <= MEDOID_SAMPLE
+        ? indices
+        : Array.from({ length: MEDOID_SAMPLE }, (_, k) => indices[Math.floor((k * indices.length) / MEDOID_SAMPLE)]);
+    let best = indices[0], bestSum = Infinity;
+    sample.forEach(i => {
+        let sum = 0;
+        sample.forEach(j => { sum += dist(i, j); });
+        if (sum < bestSum) { bestSum = sum; best = i; }
+    });
+    return best;
+}
+
+// Chains tours greedily so each section starts close to where the previous one ended
+export function orderTours(tours: number[][], dist: DistanceFn) {
+    const remaining = tours.filter(t => t.length > 0);
+    if (remaining.length === 0) return [];
+    // Start with the largest tour, it is the most stable anchor
+    remaining.sort((a, b) => b.length - a.length);
+    const ordered = [remaining.shift()!];
+    while (remaining.length > 0) {
+        const last = ordered[ordered.length - 1];
+        const tail = last[last.length - 1];
+        let bestIdx = 0, bestDist = Infinity;
+        remaining.forEach((t, k) => {
+            const d = dist(tail, t[0]);
+            if (d < bestDist) { bestDist = d; bestIdx = k; }
+        });
+        ordered.push(remaining.splice(bestIdx, 1)[0]);
+    }
+    return ordered;
+}
+
+export function buildSections(tours: number[][], entities: string[], dist: DistanceFn) {
+    return orderTours(tours, dist).map((indices, k): Section => ({
+        name: `${k + 1}. ${entities[medoid(indices, dist)]}`,
+        indices
+    }));
+}
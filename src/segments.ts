@@ -0,0 +1,77 @@
+// Segments: contiguous runs of the sorted list, split where the path makes a semantic jump.
+// They nest inside sections and give the outline view and the map hulls their structure.
+import { medoid } from './sections';
+import { convertSimilarity, type DistanceFn, type DistanceMetric } from './distance';
+
+export type SegmentMode = 'threshold' | 'auto' | 'count';
+
+export interface SegmentOptions {
+    mode: SegmentMode;
+    threshold: number; // 'threshold': cut where neighbour similarity drops below it
+    count: number;     // 'count': number of segments, cut at the weakest transitions
+}
+
+export interface Segment {
+    name: string;
+    start: number;     // rank of the first item
+    indices: number[];
+}
+
+// The default threshold is a cosine similarity of 0.8, on the scale of `metric`
+export const defaultSegmentOptions = (metric: DistanceMetric = 'cosine'): SegmentOptions => ({
+    mode: 'threshold',
+    threshold: Math.round(convertSimilarity(0.8, 'cosine', metric) * 100) / 100,
+    count: 5
+});
+
+// Ranks where a new segment starts. `forced` ranks (section starts) always cut and
+// are not transitions, so they don't count towards the statistics or the budget.
+export function segmentCuts(order: number[], similarity: (a: number, b: number) => number, opts: SegmentOptions, forced: Set<number> = new Set()) {
+    const cuts = new Set<number>(forced);
+    const transitions: { rank: number; sim: number }[] = [];
+    for (let i = 1; i < order.length; i++) {
+        if (!forced.has(i)) transitions.push({ rank: i, sim: similarity(order[i - 1], order[i]) });
+    }
+    if (transitions.length === 0) return cuts;
+
+    if (opts.mode === 'threshold') {
+        transitions.forEach(t => { if (t.sim < opts.threshold) cuts.add(t.rank); });
+    } else if (opts.mode === 'auto') {
+        // Outlier jumps: similarity more than one standard deviation below the mean transition
+        const mean = transitions.reduce((sum, t) => sum + t.sim, 0) / transitions.length;
+        const std = Math.sqrt(transitions.reduce((sum, t) => sum + (t.sim - mean) ** 2, 0) / transitions.length);
+        transitions.forEach(t => { if (t.sim < mean - std) cuts.add(t.rank); });
+    } else {
+        const budget = Math.max(0, opts.count - 1 - forced.size);
+        [...transitions].sort((a, b) => a.sim - b.sim).slice(0, budget).forEach(t => cuts.add(t.rank));
+    }
+    return cuts;
+}
+
+// Splits the order at the cuts and names every segment after its medoid
+export function buildSegments(order: number[], cuts: Set<number>, entities: string[], dist: DistanceFn): Segment[] {
+    const segments: Segment[] = [];
+    order.forEach((idx, i) => {
+        if (i === 0 || cuts.has(i)) segments.push({ name: '', start: i, indices: [] });
+        segments[segments.length - 1].indices.push(idx);
+    });
+    segments.forEach(seg => { seg.name = entities[medoid(seg.indices, dist)]; });
+    return segments;
+}
+
+// Andrew's monotone chain; returns the hull counter-clockwise without repeating the first point
+export function convexHull(points: number[][]) {
+    const pts = [...points].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+    if (pts.length < 3) return pts;
+    const cross = (o: number[], a: number[], b: number[]) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+    const lower: number[][] = [], upper: number[][] = [];
+    pts.forEach(p => {
+        while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+        lower.push(p);
+    });
+    [...pts].reverse().forEach(p => {
+        while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+        upper.push(p);
+    });
+    return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+}
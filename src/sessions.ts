@@ -0,0 +1,140 @@
+// Named sessions stored in IndexedDB and exported as single JSON files
+import type { SortConstraints } from './constraints';
+import type { DistanceMetric } from './distance';
+import type { Grouping, Section } from './sections';
+import type { SolverSettings } from './solver-settings';
+import type { ProjectionSettings } from './projection';
+import type { ModelSettings } from './models';
+
+const DB_NAME = 'semantic-sorter-sessions';
+const STORE = 'sessions';
+const SUMMARIES = 'summaries'; // what the list shows, so listing does not load every session
+const FILE_VERSION = 2;
+
+export interface SessionResult {
+    entities: string[];
+    sortedIndices: number[];
+    coordinates: number[][];
+    // Distance from every item of `sortedIndices` to the next. The full matrix is not
+    // stored: with embeddings the page computes it again, without them it is not needed
+    // for the list, the map or the exports.
+    transitions: number[];
+    metric: DistanceMetric;
+    sections: Section[] | null;
+    metadata: Record<string, string>[] | null;
+    constraints: SortConstraints;
+    query?: { text: string; mode: 'closest' | 'depot'; similarities: number[]; distances: number[] } | null;
+    embeddings: number[][] | null; // optional, they dominate the size
+}
+
+export interface Session {
+    id: string;
+    name: string;
+    createdAt: number;
+    input: string;
+    modelName: string;
+    device: string;
+    model?: ModelSettings;           // missing in sessions saved before the model manager existed
+    solver: SolverSettings;
+    grouping: Grouping;
+    layerState: Record<string, number | boolean>;
+    projection?: ProjectionSettings; // missing in sessions saved before projection settings existed
+    result: SessionResult;
+}
+
+export type SessionSummary = Pick<Session, 'id' | 'name' | 'createdAt'> & { size: number };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const summaryOf = (s: Session): SessionSummary => ({ id: s.id, name: s.name, createdAt: s.createdAt, size: s.result.entities.length });
+
+const openDb = () => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const req = indexedDB.open(DB_NAME, 2);
+            req.onupgradeneeded = (e) => {
+                const db = req.result;
+                if (e.oldVersion < 1) db.createObjectStore(STORE, { keyPath: 'id' });
+                if (e.oldVersion < 2) {
+                    // Sessions saved before the summary store existed get their summaries once
+                    const summaries = db.createObjectStore(SUMMARIES, { keyPath: 'id' });
+                    req.transaction!.objectStore(STORE).openCursor().onsuccess = (ev) => {
+                        const cursor = (ev.target as IDBRequest<IDBCursorWithValue | null>).result;
+                        if (!cursor) return;
+                        summaries.put(summaryOf(cursor.value));
+                        cursor.continue();
+                    };
+                }
+            };
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => reject(req.error);
+        });
+    }
+    return dbPromise;
+};
+
+const run = async <T>(store: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await openDb();
+    return new Promise<T>((resolve, reject) => {
+        const req = fn(db.transaction(store, mode).objectStore(store));
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+};
+
+// Writes to the session and its summary in one transaction
+const update = async (fn: (sessions: IDBObjectStore, summaries: IDBObjectStore) => void) => {
+    const db = await openDb();
+    return new Promise<void>((resolve, reject) => {
+        const tx = db.transaction([STORE, SUMMARIES], 'readwrite');
+        fn(tx.objectStore(STORE), tx.objectStore(SUMMARIES));
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+export const newSessionId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const saveSession = (session: Session) => update((sessions, summaries) => {
+    sessions.put(session);
+    summaries.put(summaryOf(session));
+});
+
+export const loadSession = async (id: string) => {
+    const session = await run<Session | undefined>(STORE, 'readonly', store => store.get(id));
+    return session && withoutMatrix(session);
+};
+
+export const deleteSession = (id: string) => update((sessions, summaries) => {
+    sessions.delete(id);
+    summaries.delete(id);
+});
+
+export async function listSessions(): Promise<SessionSummary[]> {
+    const all = await run<SessionSummary[]>(SUMMARIES, 'readonly', store => store.getAll());
+    return all.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// Sessions written before version 2 carry the full matrix; only the transitions along
+// the order are kept from it
+function withoutMatrix(session: Session): Session {
+    const { matrix, ...result } = session.result as SessionResult & { matrix?: ArrayLike<number> | null };
+    if (matrix === undefined) return session;
+    const n = result.entities.length;
+    const order = result.sortedIndices;
+    const transitions = result.transitions ?? (matrix ? order.slice(1).map((b, i) => matrix[order[i] * n + b]) : []);
+    return { ...session, result: { ...result, transitions } };
+}
+
+export function sessionToJson(session: Session) {
+    return JSON.stringify({ version: FILE_VERSION, session });
+}
+
+export function sessionFromJson(text: string): Session {
+    const data = JSON.parse(text);
+    if (!data || (data.version !== 1 && data.version !== FILE_VERSION) || !data.session?.result) {
+        throw new Error('Not a semantic sorter session file');
+    }
+    return { ...withoutMatrix(data.session as Session), id: newSessionId() };
+}
@@ -0,0 +1,49 @@
+// Solver settings, shared by the browser worker and the Node library
+
+// 'vrp': the vrp-cli solver on the full matrix. 'heuristic': kNN graph, greedy
+// construction and 2-opt/Or-opt, for lists too large to hand to the VRP solver.
+export type SolverPath = 'vrp' | 'heuristic';
+
+// Above this many items 'auto' takes the heuristic path
+export const LARGE_LIST_SIZE = 1500;
+
+export interface SolverSettings {
+    maxTime: number;         // seconds, 0 = no time limit
+    maxGenerations: number;  // 0 = no generation limit
+    variationSample: number; // generations in the cost-variation window, 0 = off
+    variationCv: number;     // coefficient of variation below which the search stops
+    seed: number | null;     // null = non-deterministic
+    closed: boolean;         // round trip back to the first item
+    path?: SolverPath | 'auto'; // missing in sessions saved before the heuristic path existed
+    polishWindow?: number;   // heuristic path: re-solve windows of this many items with the VRP solver, 0 = off
+}
+
+export const defaultSolverSettings = (): SolverSettings => ({
+    maxTime: 5,
+    maxGenerations: 1000,
+    variationSample: 0,
+    variationCv: 0.1,
+    seed: null,
+    closed: false,
+    path: 'auto',
+    polishWindow: 0
+});
+
+export const pickSolverPath = (n: number, settings: SolverSettings): SolverPath =>
+    !settings.path || settings.path === 'auto' ? (n > LARGE_LIST_SIZE ? 'heuristic' : 'vrp') : settings.path;
+
+// Maps the settings onto the vrp-cli `config` object passed to `solve_pragmatic`
+export function buildSolverConfig(settings: SolverSettings) {
+    const termination: any = {};
+    if (settings.maxTime > 0) termination.maxTime = settings.maxTime;
+    if (settings.maxGenerations > 0) termination.maxGenerations = settings.maxGenerations;
+    if (settings.variationSample > 0) {
+        termination.variation = {
+            intervalType: 'sample',
+            value: settings.variationSample,
+            cv: settings.variationCv,
+            isGlobal: true
+        };
+    }
+    return { termination };
+}
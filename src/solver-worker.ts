@@ -0,0 +1,18 @@
+import init, { solve_pragmatic } from './vrp-pkg/vrp_cli.js';
+import { seedCryptoRandom } from './random';
+
+const ctx: Worker = self as any;
+
+// One worker per solve, so the seeded crypto never reaches anything else
+ctx.onmessage = async (e) => {
+    const { problem, matrices, config, seed } = e.data;
+    const restore = seed !== null && seed !== undefined ? seedCryptoRandom(seed) : null;
+    try {
+        await init();
+        ctx.postMessage({ type: 'SOLVED', payload: solve_pragmatic(problem, matrices, config) });
+    } catch (err) {
+        ctx.postMessage({ type: 'ERROR', payload: String(err) });
+    } finally {
+        restore?.();
+    }
+};
@@ -0,0 +1,37 @@
+import SolverWorker from './solver-worker?worker';
+import { buildSolverConfig, type SolverSettings } from './solver-settings';
+
+let activeSolver: { worker: Worker; reject: (e: Error) => void } | null = null;
+
+// Solves in a fresh wasm instance. The solver's thread RNG is seeded once per
+// instance, so a new instance per run is what makes seeded runs reproducible.
+export function solveInWorker(problem: any, matrices: any, settings: SolverSettings): Promise<any> {
+    return new Promise((resolve, reject) => {
+        const solver = new SolverWorker();
+        activeSolver = { worker: solver, reject };
+        const done = () => {
+            solver.terminate();
+            if (activeSolver?.worker === solver) activeSolver = null;
+        };
+        solver.onmessage = (e) => {
+            done();
+            if (e.data.type === 'SOLVED') resolve(JSON.parse(e.data.payload));
+            else reject(new Error(e.data.payload));
+        };
+        solver.onerror = (e) => {
+            done();
+            reject(new Error(e.message));
+        };
+        solver.postMessage({ problem, matrices, config: buildSolverConfig(settings), seed: settings.seed });
+    });
+}
+
+// Stops a running solve and rejects its promise
+export function abortSolve() {
+    if (activeSolver) {
+        const { worker, reject } = activeSolver;
+        activeSolver = null;
+        worker.terminate();
+        reject(new Error('Solve aborted'));
+    }
+}
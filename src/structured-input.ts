@@ -0,0 +1,125 @@
+// Tabular input (CSV, TSV, JSON, JSONL) for sorting records instead of bare lines
+export type StructuredFormat = 'csv' | 'tsv' | 'json' | 'jsonl';
+
+export interface StructuredData {
+    format: StructuredFormat;
+    columns: string[];
+    rows: Record<string, string>[];
+}
+
+const stringify = (v: unknown) => (v === null || v === undefined ? '' : typeof v === 'string' ? v : JSON.stringify(v));
+
+function fromObjects(format: StructuredFormat, items: unknown[]): StructuredData | null {
+    if (items.length === 0) return null;
+    const columns: string[] = [];
+    const rows = items.map(item => {
+        // Arrays of plain values become a single `text` column
+        const obj = item !== null && typeof item === 'object' && !Array.isArray(item) ? item as Record<string, unknown> : { text: item };
+        const row: Record<string, string> = {};
+        Object.entries(obj).forEach(([k, v]) => {
+            if (!columns.includes(k)) columns.push(k);
+            row[k] = stringify(v);
+        });
+        return row;
+    });
+    return { format, columns, rows };
+}
+
+// RFC 4180 style: quoted fields may contain delimiters, quotes ("") and newlines
+function parseDelimited(text: string, delimiter: string): string[][] {
+    const records: string[][] = [];
+    let field = '', record: string[] = [], quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (quoted) {
+            if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+            else if (c === '"') quoted = false;
+            else field += c;
+        } else if (c === '"' && field === '') {
+            quoted = true;
+        } else if (c === delimiter) {
+            record.push(field); field = '';
+        } else if (c === '\n' || c === '\r') {
+            if (c === '\r' && text[i + 1] === '\n') i++;
+            record.push(field); field = '';
+            if (record.some(f => f !== '')) records.push(record);
+            record = [];
+        } else {
+            field += c;
+        }
+    }
+    record.push(field);
+    if (record.some(f => f !== '')) records.push(record);
+    return records;
+}
+
+function fromDelimited(format: 'csv' | 'tsv', text: string): StructuredData | null {
+    const records = parseDelimited(text, format === 'csv' ? ',' : '\t');
+    if (records.length < 2) return null;
+    const columns = records[0].map((h, i) => h.trim() || `column_${i + 1}`);
+    const rows = records.slice(1).map(r => Object.fromEntries(columns.map((c, i) => [c, r[i] ?? ''])));
+    return { format, columns, rows };
+}
+
+export function parseStructured(text: string, format: StructuredFormat): StructuredData | null {
+    if (format === 'json') {
+        const data = JSON.parse(text);
+        return fromObjects('json', Array.isArray(data) ? data : [data]);
+    }
+    if (format === 'jsonl') {
+        return fromObjects('jsonl', text.split('\n').filter(l => l.trim()).map(l => JSON.parse(l)));
+    }
+    return fromDelimited(format, text);
+}
+
+export function formatFromFileName(name: string): StructuredFormat | null {
+    const ext = name.toLowerCase().split('.').pop();
+    if (ext === 'csv' || ext === 'tsv' || ext === 'json' || ext === 'jsonl') return ext;
+    if (ext === 'ndjson') return 'jsonl';
+    return null;
+}
+
+const TEXT_COLUMNS = ['text', 'title', 'name', 'label', 'term', 'description', 'content'];
+
+// Guesses whether pasted text is a table rather than a plain list. Delimited text
+// only counts if every line has the same number of fields, so lists of phrases
+// that happen to contain commas stay plain text. `confident` is false when nothing
+// but the field counts points to a table: the caller asks before the first line
+// becomes a header.
+export function detectFormat(text: string): { format: StructuredFormat; confident: boolean } | null {
+    const trimmed = text.trim();
+    const lines = trimmed.split('\n').filter(l => l.trim());
+    if (lines.length < 2) return null;
+    if (trimmed.startsWith('[')) {
+        try { JSON.parse(trimmed); return { format: 'json', confident: true }; } catch { return null; }
+    }
+    if (lines.every(l => l.trim().startsWith('{'))) {
+        try { lines.forEach(l => JSON.parse(l)); return { format: 'jsonl', confident: true }; } catch { return null; }
+    }
+    for (const [format, delimiter] of [['tsv', '\t'], ['csv', ',']] as const) {
+        const records = parseDelimited(trimmed, delimiter);
+        const width = records[0].length;
+        if (width > 1 && records.length > 1 && records.every(r => r.length === width)) return { format, confident: looksLikeHeader(records[0]) };
+    }
+    return null;
+}
+
+// A header names its columns: short distinct labels, at least one of them a name
+// that text columns usually carry
+function looksLikeHeader(fields: string[]) {
+    const names = fields.map(f => f.trim().toLowerCase());
+    return new Set(names).size === names.length
+        && names.every(n => /^[a-z_][\w -]{0,31}$/.test(n))
+        && names.some(n => TEXT_COLUMNS.includes(n));
+}
+
+// Picks a sensible default text column: a well-known name, else the column with the longest values
+export function guessTextColumns(data: StructuredData): string[] {
+    const hit = data.columns.find(c => TEXT_COLUMNS.includes(c.toLowerCase()));
+    if (hit) return [hit];
+    const avgLength = (c: string) => data.rows.reduce((sum, r) => sum + (r[c]?.length || 0), 0) / data.rows.length;
+    return [[...data.columns].sort((a, b) => avgLength(b) - avgLength(a))[0]];
+}
+
+export const rowText = (row: Record<string, string>, fields: string[]) =>
+    fields.map(f => (row[f] || '').replace(/\s+/g, ' ').trim()).filter(Boolean).join('. ');
@@ -1,202 +1,475 @@
 import { pipeline, env } from '@huggingface/transformers';
-import init, { solve_pragmatic, get_routing_locations } from './vrp-pkg/vrp_cli.js';
-import { UMAP } from 'umap-js';
+import init from './vrp-pkg/vrp_cli.js';
+import { getCachedEmbeddings, putCachedEmbeddings, clearCachedEmbeddings } from './embedding-cache';
+import { solveInWorker, abortSolve } from './solver';
+import { packEmbeddings, buildDistanceMatrix, distancesTo, distanceToSimilarity, embeddingDistances, matrixDistances, transitionDistances, type DistanceFn } from './distance';
+import { findNearDuplicates } from './duplicates';
+import { knnGraph } from './heuristic';
+import { insertIntoTours, placeNewPoints } from './insertion';
+import { projectInWorker } from './projector';
+import { embedTexts, solveOrder, NoSolutionError, type SolveOptions } from './pipeline';
+import { LARGE_LIST_SIZE, pickSolverPath } from './solver-settings';
+import { averageMatrices } from './compare';
+import { defaultModelSettings, embeddingKey, isLocalModel, loadKey, type ModelSettings, type PromptRole } from './models';
+import {
+    envelope, PROTOCOL_VERSION,
+    type CompareRequest, type ErrorCode, type InsertRequest, type LocalModelFile, type ModelOrder, type QueryAnchor, type RequestMessage, type SortRequest,
+    type Stage, type StageTimings, type WorkerRequest, type WorkerResponse
+} from './protocol';
 
 // Configure env
 env.allowLocalModels = false;
 env.useBrowserCache = true;
 
 env.backends.onnx.device = 'auto';     // <= the key line
-env.allowRemoteModels = true; 
+env.allowRemoteModels = true;
 
 let extractor: any = null;
 let vrpReady = false;
+let currentModel: ModelSettings = defaultModelSettings();
+let loadedKey = '';
+// Further models of a comparison, kept loaded so comparing again does not reload them
+const comparedExtractors = new Map<string, any>();
+const MAX_COMPARED = 2;
+
+// Serves the files of a model picked from disk in place of the browser cache. The hub
+// looks a file up under its local path, `<localModelPath>/<modelName>/<file>`.
+const localFileCache = (modelName: string, files: LocalModelFile[]) => {
+    const byPath = new Map(files.map(f => [`${modelName}/${f.path}`, f.file]));
+    return {
+        async match(request: string | Request) {
+            const url = typeof request === 'string' ? request : request.url;
+            const prefix = env.localModelPath.replace(/\/?$/, '/');
+            const file = byPath.get(url.startsWith(prefix) ? url.slice(prefix.length) : url);
+            return file ? new Response(file, { headers: { 'Content-Length': String(file.size) } }) : undefined; // the length drives the progress bar
+        },
+        async put() {}
+    };
+};
+
+class CancelledError extends Error {}
+
+// Failure tagged with a protocol error code
+class StageError extends Error {
+    code: ErrorCode;
+    stage?: Stage;
+    constructor(code: ErrorCode, message: string, stage?: Stage) {
+        super(message);
+        this.code = code;
+        this.stage = stage;
+    }
+}
+
+const STAGE_MESSAGES: Record<Stage, string> = {
+    load: 'Loading model...',
+    embed: 'Computing embeddings...',
+    matrix: 'Calculating distance matrix...',
+    solve: 'Solving TSP (WASM)...',
+    project: 'Projecting...'
+};
+
+const STAGE_ERRORS: Record<Stage, ErrorCode> = {
+    load: 'MODEL_LOAD_FAILED',
+    embed: 'EMBED_FAILED',
+    matrix: 'INTERNAL',
+    solve: 'SOLVE_FAILED',
+    project: 'PROJECTION_FAILED'
+};
 
 const ctx: Worker = self as any;
 
-const initialize = async (modelName: string = 'onnx-community/embeddinggemma-300m-ONNX', device: string = 'wasm') => {
+const reply = (id: number, message: WorkerResponse, transfer: Transferable[] = []) => {
+    ctx.postMessage(envelope(id, message), transfer);
+};
+
+const errorMessage = (e: unknown) => (e instanceof Error ? e.message : String(e));
+
+// One request being served: its stage timings and whether it was cancelled
+const createRun = (id: number) => {
+    const run = {
+        id,
+        cancelled: false,
+        timings: {} as StageTimings,
+        checkpoint() {
+            if (run.cancelled) throw new CancelledError('Cancelled');
+        },
+        // Announces a stage, times it and tags a failure with the stage's error code
+        async stage<T>(name: Stage, fn: () => T | Promise<T>, message = STAGE_MESSAGES[name]): Promise<T> {
+            run.checkpoint();
+            reply(id, { type: 'STAGE', payload: { stage: name, message } });
+            const start = performance.now();
+            try {
+                return await fn();
+            } catch (e) {
+                // An aborted solve rejects with a plain error
+                if (run.cancelled) throw new CancelledError('Cancelled');
+                if (e instanceof CancelledError || e instanceof StageError) throw e;
+                throw new StageError(STAGE_ERRORS[name], errorMessage(e), name);
+            } finally {
+                run.timings[name] = (run.timings[name] ?? 0) + performance.now() - start;
+            }
+        }
+    };
+    return run;
+};
+
+type Run = ReturnType<typeof createRun>;
+
+// The SORT, INSERT or FIND_DUPLICATES being served; a newer one supersedes it
+let activeRun: Run | null = null;
+
+const beginRun = (id: number) => {
+    if (activeRun) {
+        activeRun.cancelled = true;
+        abortSolve();
+    }
+    activeRun = createRun(id);
+    return activeRun;
+};
+
+const requireReady = () => {
+    if (!extractor || !vrpReady) throw new StageError('NOT_READY', 'Worker not ready, load a model first');
+};
+
+const endRun = (run: Run) => {
+    if (activeRun === run) activeRun = null;
+};
+
+const fail = (id: number, e: unknown) => {
+    if (e instanceof CancelledError) {
+        reply(id, { type: 'CANCELLED', payload: {} });
+        return;
+    }
+    console.error(e);
+    const { code, stage } = e instanceof StageError ? e : { code: 'INTERNAL' as ErrorCode, stage: undefined };
+    reply(id, { type: 'ERROR', payload: { code, message: errorMessage(e), stage } });
+};
+
+const initialize = async (id: number, model: ModelSettings, device: string = 'wasm', files: LocalModelFile[] = []) => {
+    const run = createRun(id);
+    const key = loadKey(model, device);
+    // Pooling and prompts apply per call, so only a new model, precision or device loads again
+    const reload = !extractor || key !== loadedKey || files.length > 0;
+    // Not ready again until the new model is in, so a failed load can't leave the old one half-current
+    if (reload) {
+        extractor = null;
+        loadedKey = '';
+    }
     try {
         if (!vrpReady) {
-            await init();
+            try {
+                await init();
+            } catch (e) {
+                throw new StageError('SOLVER_INIT_FAILED', errorMessage(e), 'load');
+            }
             vrpReady = true;
         }
-        
-        ctx.postMessage({ type: 'STATUS', payload: `Loading model: ${modelName} on ${device}...` });
-        
-        extractor = await pipeline('feature-extraction', modelName, {
-            device: device as any,
-            dtype: 'fp32',
-            progress_callback: (data: any) => {
-                ctx.postMessage({
-                    type: 'PROGRESS',
-                    payload: data
-                });
+
+        if (reload) {
+            const local = isLocalModel(model.modelName);
+            if (local && files.length === 0) {
+                throw new StageError('MODEL_LOAD_FAILED', `Pick the folder of ${model.modelName} again, local files are not kept across reloads`, 'load');
             }
-        });
-        
-        ctx.postMessage({ type: 'READY' });
+            env.allowLocalModels = local;
+            env.useCustomCache = local;
+            env.customCache = local ? localFileCache(model.modelName, files) : null;
+            extractor = await run.stage('load', () => pipeline('feature-extraction', model.modelName, {
+                device: device as any,
+                dtype: model.dtype,
+                local_files_only: local,
+                progress_callback: (data: any) => reply(id, { type: 'PROGRESS', payload: data })
+            }));
+            loadedKey = key;
+        }
+
+        currentModel = model;
+        reply(id, { type: 'READY', payload: { modelName: model.modelName, device, reloaded: reload, timings: run.timings } });
     } catch (e) {
-        ctx.postMessage({ type: 'ERROR', payload: `Init error: ${String(e)}` });
+        fail(id, e);
     }
 };
 
-// Utilities
-function cosineSimilarity(a: number[], b: number[]) {
-    let dot = 0;
-    let normA = 0;
-    let normB = 0;
-    for (let i = 0; i < a.length; i++) {
-        dot += a[i] * b[i];
-        normA += a[i] * a[i];
-        normB += b[i] * b[i];
+const embedWithCache = async (run: Run, entities: string[], batchSize: number, role: PromptRole = 'document', loaded = { extractor, model: currentModel }) => {
+    const { model } = loaded;
+    const { modelName } = model;
+    const key = embeddingKey(model, role);
+    let cached: (number[] | undefined)[] = [];
+    try {
+        cached = await getCachedEmbeddings(modelName, key, entities);
+    } catch (e) {
+        console.warn('Embedding cache unavailable', e);
     }
-    return dot / (Math.sqrt(normA) * Math.sqrt(normB));
-}
 
-function getDistance(a: number[], b: number[]) {
-    const sim = cosineSimilarity(a, b);
-    return Math.max(0, 1 - sim);
-}
+    const missing = [...new Set(entities.filter((_, i) => !cached[i]))];
+    const fresh = new Map<string, number[]>();
+    await embedTexts(loaded.extractor, missing, batchSize, async (batch, vectors, done) => {
+        batch.forEach((t, i) => fresh.set(t, vectors[i]));
+        // Persist per batch so a cancelled run still keeps the work done so far
+        try {
+            await putCachedEmbeddings(modelName, key, batch, vectors);
+        } catch (e) {
+            console.warn('Failed to write embedding cache', e);
+        }
+        reply(run.id, { type: 'EMBED_PROGRESS', payload: { done, total: missing.length } });
+        run.checkpoint();
+    }, model, role);
 
-const encodeLoc = (idx: number) => ({ lat: Math.floor(idx / 1000), lng: idx % 1000 });
-const decodeLoc = (loc: any) => Math.round(loc.lat * 1000 + loc.lng);
+    const embeddings = entities.map((t, i) => cached[i] || fresh.get(t)!);
+    return { embeddings, reused: entities.filter((_, i) => cached[i]).length };
+};
 
-const runSort = async (entities: string[]) => {
-    if (!extractor || !vrpReady) {
-        ctx.postMessage({ type: 'ERROR', payload: 'Worker not ready' });
-        return;
-    }
+// The solve stage of a run; solver progress goes out as stage messages
+const solveStage = (run: Run, entities: string[], matrix: Float32Array | null, options: SolveOptions, message?: string) =>
+    run.stage('solve', async () => {
+        try {
+            return await solveOrder(entities, matrix, {
+                ...options,
+                checkpoint: run.checkpoint,
+                onStatus: status => reply(run.id, { type: 'STAGE', payload: { stage: 'solve', message: status } })
+            }, solveInWorker);
+        } catch (e) {
+            if (e instanceof NoSolutionError) throw new StageError('NO_SOLUTION', e.message, 'solve');
+            throw e;
+        }
+    }, message);
 
+const runSort = async (id: number, { entities, constraints, batchSize, metric, grouping, solver, query }: SortRequest) => {
+    const run = beginRun(id);
     try {
-        ctx.postMessage({ type: 'STATUS', payload: 'Computing embeddings...' });
-        
-        // 1. Get embeddings
-        const output = await extractor(entities, { pooling: 'mean', normalize: true });
-        const embeddings = output.tolist();
-        
-        ctx.postMessage({ type: 'STATUS', payload: 'Projecting with UMAP (2D)...' });
-        
-        // 2. UMAP Projection
-        const umap = new UMAP({
-            nComponents: 2,
-            nNeighbors: Math.min(15, entities.length - 1), // Adjust for small datasets
-            minDist: 0.1,
-            spread: 1.0,
+        requireReady();
+
+        // 1. Get embeddings, reusing cached vectors where possible
+        const { embeddings, reused } = await run.stage('embed', () => embedWithCache(run, entities, batchSize));
+        const queryText = query?.text.trim();
+        const queryVector = queryText ? await run.stage('embed', async () => (await embedWithCache(run, [queryText], 1, 'query')).embeddings[0]) : null;
+
+        // 2. The projection for the map is requested separately (PROJECT), so the list shows up first.
+        // The large-list path never looks at every pair, it computes distances from the vectors.
+        const large = pickSolverPath(entities.length, solver) === 'heuristic';
+        const { packed, matrix } = await run.stage('matrix', () => {
+            const packed = packEmbeddings(embeddings);
+            return { packed, matrix: large ? null : buildDistanceMatrix(packed, metric) };
         });
-        
-        const coordinates = umap.fit(embeddings);
-
-        ctx.postMessage({ type: 'STATUS', payload: 'Calculating distance matrix...' });
-
-        // 3. Prepare VRP
-        const jobs = entities.map((_, idx) => ({
-            id: `job_${idx}`,
-            deliveries: [{
-                places: [{
-                    location: encodeLoc(idx),
-                    duration: 0
-                }],
-                demand: [1]
-            }]
+
+        // Query anchor: distances from the query to every item
+        const queryDistances = queryVector ? distancesTo(queryVector, packed, metric) : null;
+        const queryResult: QueryAnchor | null = queryDistances ? {
+            text: queryText!,
+            mode: query!.mode,
+            similarities: Array.from(queryDistances, d => distanceToSimilarity(d, metric)),
+            distances: Array.from(queryDistances) // to place the query once the projection is in
+        } : null;
+
+        // 3. Solve the VRP over the matrix, or run the heuristic path for large lists
+        const { sortedIndices, sections, path: solverPath } = await solveStage(run, entities, matrix, {
+            constraints,
+            grouping,
+            solver,
+            query: queryDistances ? { distances: queryDistances, mode: query!.mode } : null,
+            embeddings: packed,
+            metric
+        });
+        const transitions = matrix ? undefined : transitionDistances(sortedIndices, embeddingDistances(packed, metric));
+
+        reply(id, {
+            type: 'SORTED',
+            payload: { sortedIndices, embeddings, entities, reused, metric, matrix, transitions, sections, query: queryResult, timings: run.timings, solverPath }
+        }, matrix ? [matrix.buffer] : []);
+    } catch (e) {
+        fail(id, e);
+    } finally {
+        endRun(run);
+    }
+};
+
+// Adds new lines to an existing order by cheapest insertion instead of re-solving
+const runInsert = async (id: number, payload: InsertRequest) => {
+    const { entities: existing, embeddings: existingEmbeddings, coordinates, tours, added, constraints, locked, metric, batchSize, window } = payload;
+    const run = beginRun(id);
+    try {
+        requireReady();
+        // Only the new lines go through the model when the caller still has the old vectors
+        const known = !!existingEmbeddings && existingEmbeddings.length === existing.length;
+        const { embeddings: newEmbeddings, reused } = await run.stage('embed', () => embedWithCache(run, known ? added : [...existing, ...added], batchSize));
+        const embeddings = known ? [...existingEmbeddings!, ...newEmbeddings] : newEmbeddings;
+
+        const entities = [...existing, ...added];
+        const n = entities.length;
+        // Like a sort, large lists get no matrix; insertion only looks at the pairs around each new item
+        const packed = packEmbeddings(embeddings);
+        const matrix = n > LARGE_LIST_SIZE ? null : await run.stage('matrix', () => buildDistanceMatrix(packed, metric));
+        const dist: DistanceFn = matrix ? matrixDistances(matrix, n) : embeddingDistances(packed, metric);
+        const newIndices = added.map((_, k) => existing.length + k);
+
+        const result = await run.stage('solve', () => insertIntoTours(tours, newIndices, dist, {
+            lockFirst: constraints?.start !== null && constraints?.start !== undefined,
+            lockLast: constraints?.end !== null && constraints?.end !== undefined,
+            // @N pins and locked items keep their ranks, so the labels next to them stay true
+            fixed: [...(constraints?.pinned ?? []).map(p => p.index), ...locked],
+            window
         }));
 
-        const vehicle = {
-            typeId: "vehicle",
-            vehicleIds: ["v1"],
-            profile: { matrix: "car" },
-            costs: { fixed: 0, distance: 1, time: 0 },
-            shifts: [{
-                start: { earliest: "2024-01-01T00:00:00Z", location: encodeLoc(0) },
-            }],
-            capacity: [1000]
-        };
-
-        const problem = {
-            plan: { jobs: jobs.slice(1) },
-            fleet: {
-                vehicles: [vehicle],
-                profiles: [{ name: "car" }]
-            }
-        };
-
-        // 4. Routing Locations & Matrix
-        // Note: We need to parse WASM output JSON
-        const routingLocationsStr = get_routing_locations(problem);
-        const routingLocations = JSON.parse(routingLocationsStr);
-        
-        const size = routingLocations.length;
-        const distances: number[] = [];
-        
-        for (let i = 0; i < size; i++) {
-            for (let j = 0; j < size; j++) {
-                const u = routingLocations[i];
-                const v = routingLocations[j];
-                const idxA = decodeLoc(u);
-                const idxB = decodeLoc(v);
-                
-                // Safety check
-                if (!embeddings[idxA] || !embeddings[idxB]) {
-                   distances.push(20000); 
-                   continue;
-                }
-
-                const dist = getDistance(embeddings[idxA], embeddings[idxB]);
-                distances.push(Math.round(dist * 10000));
+        reply(id, {
+            type: 'SORTED',
+            payload: {
+                sortedIndices: result.flat(),
+                embeddings,
+                // Without a finished projection the caller projects the grown list from scratch
+                coordinates: coordinates?.length === existing.length ? placeNewPoints(coordinates, newIndices, existing.length, dist) : null,
+                entities,
+                reused: known ? existing.length + reused : reused,
+                metric,
+                matrix,
+                transitions: matrix ? undefined : transitionDistances(result.flat(), dist),
+                sections: null,
+                // Inserted items have no query similarity, so an insertion drops the query
+                query: null,
+                // The page keeps its sections (even a single one) with these members
+                sectionTours: result,
+                inserted: added.length,
+                timings: run.timings
             }
-        }
+        }, matrix ? [matrix.buffer] : []);
+    } catch (e) {
+        fail(id, e);
+    } finally {
+        endRun(run);
+    }
+};
+
+// Embeds the list (through the cache, so the following sort reuses the vectors) and groups near-duplicates
+const runFindDuplicates = async (id: number, { entities, batchSize, metric, threshold }: Extract<WorkerRequest, { type: 'FIND_DUPLICATES' }>['payload']) => {
+    const run = beginRun(id);
+    try {
+        requireReady();
+        const { embeddings } = await run.stage('embed', () => embedWithCache(run, entities, batchSize));
+        const { groups, similarities } = await run.stage('matrix', () => {
+            const packed = packEmbeddings(embeddings);
+            const n = entities.length;
+            // Like a sort, large lists get no matrix: only each item's nearest neighbours are checked
+            const large = n > LARGE_LIST_SIZE;
+            const dist: DistanceFn = large ? embeddingDistances(packed, metric) : matrixDistances(buildDistanceMatrix(packed, metric), n);
+            const groups = findNearDuplicates(n, dist, metric, threshold, large ? knnGraph(packed, dist, 10) : undefined);
+            // Similarity between the members of each group, so the review panel can show them
+            // against whichever member the user picks as the representative
+            const similarities = groups.map(g => g.indices.map(i => g.indices.map(j => distanceToSimilarity(dist(i, j), metric))));
+            return { groups, similarities };
+        });
+        reply(id, { type: 'DUPLICATES', payload: { groups, similarities, timings: run.timings } });
+    } catch (e) {
+        fail(id, e);
+    } finally {
+        endRun(run);
+    }
+};
+
+// The extractor of a compared model: the loaded one, a kept one, or loaded now. The
+// oldest kept model is released once more than MAX_COMPARED are around.
+const comparedExtractor = async (id: number, model: ModelSettings, device: string) => {
+    const key = loadKey(model, device);
+    if (key === loadedKey) return extractor;
+    const kept = comparedExtractors.get(key);
+    if (kept) return kept;
+    if (isLocalModel(model.modelName)) throw new Error(`${model.modelName} can only be compared as the loaded model`);
+    env.allowLocalModels = false;
+    env.useCustomCache = false;
+    const loaded = await pipeline('feature-extraction', model.modelName, {
+        device: device as any,
+        dtype: model.dtype,
+        progress_callback: (data: any) => reply(id, { type: 'PROGRESS', payload: data })
+    });
+    comparedExtractors.set(key, loaded);
+    while (comparedExtractors.size > MAX_COMPARED) {
+        const [oldest, pipe] = comparedExtractors.entries().next().value!;
+        comparedExtractors.delete(oldest);
+        await pipe.dispose?.();
+    }
+    return loaded;
+};
 
-        const matrixData = [{
-            matrix: "car",
-            distances: distances,
-            travelTimes: distances
-        }];
-
-        ctx.postMessage({ type: 'STATUS', payload: 'Solving TSP (WASM)...' });
-        
-        const config = {
-            termination: { maxTime: 5, maxGenerations: 1000 }
-        };
-
-        const solutionStr = solve_pragmatic(problem, matrixData, config);
-        const solution = JSON.parse(solutionStr);
-
-        if (solution.tours && solution.tours.length > 0) {
-            const tour = solution.tours[0];
-            const stops = tour.stops;
-            
-            const sortedIndices: number[] = [];
-            stops.forEach((stop: any) => {
-                const locationIdx = decodeLoc(stop.location);
-                if (!sortedIndices.includes(locationIdx)) {
-                    sortedIndices.push(locationIdx);
-                }
-            });
-
-            ctx.postMessage({
-                type: 'SORTED',
-                payload: {
-                    sortedIndices,
-                    embeddings,
-                    coordinates, // 2D array [ [x, y], ... ]
-                    entities 
-                }
-            });
-        } else {
-            ctx.postMessage({ type: 'ERROR', payload: 'No solution found.' });
+// Sorts the list once per model and once on the models' averaged distances
+const runCompare = async (id: number, { entities, models, device, constraints, batchSize, metric, solver }: CompareRequest) => {
+    const run = beginRun(id);
+    try {
+        requireReady();
+        // One n×n matrix per model and the averaged one would not fit for large lists
+        if (entities.length > LARGE_LIST_SIZE) throw new StageError('BAD_REQUEST', `Model comparison is limited to ${LARGE_LIST_SIZE} items`);
+        const orders: ModelOrder[] = [];
+        let firstPacked: ReturnType<typeof packEmbeddings> | null = null;
+        for (const [k, model] of models.entries()) {
+            const label = `Model ${k + 1}/${models.length} (${model.modelName})`;
+            const loaded = await run.stage('load', () => comparedExtractor(id, model, device), `${label}: loading...`);
+            const { embeddings } = await run.stage('embed', () => embedWithCache(run, entities, batchSize, 'document', { extractor: loaded, model }), `${label}: embedding...`);
+            const packed = packEmbeddings(embeddings);
+            firstPacked ??= packed;
+            const matrix = await run.stage('matrix', () => buildDistanceMatrix(packed, metric));
+            const { sortedIndices } = await solveStage(run, entities, matrix, { constraints, solver, embeddings: packed }, `${label}: solving...`);
+            orders.push({ model, sortedIndices, embeddings, matrix });
         }
 
+        // The neighbour graph of the heuristic path comes from the first model's vectors
+        const matrix = await run.stage('matrix', () => averageMatrices(orders.map(o => o.matrix), entities.length), 'Averaging distance matrices...');
+        const { sortedIndices } = await solveStage(run, entities, matrix, { constraints, solver, embeddings: firstPacked! }, 'Solving the combined order...');
+
+        reply(id, {
+            type: 'COMPARED',
+            payload: { entities, metric, orders, combined: { sortedIndices, matrix }, timings: run.timings }
+        }, [matrix.buffer, ...orders.map(o => o.matrix.buffer)]);
     } catch (e) {
-        console.error(e);
-        ctx.postMessage({ type: 'ERROR', payload: String(e) });
+        fail(id, e);
+    } finally {
+        endRun(run);
     }
 };
 
-ctx.onmessage = (e) => {
-    const { type, payload } = e.data;
-    if (type === 'INIT') {
-        initialize(payload.modelName, payload.device);
-    } else if (type === 'SORT') {
-        runSort(payload);
+// Projection for the map, independent of the sort and of the model, so it is not a run:
+// it neither needs a loaded model nor cancels a sort in progress
+// The PROJECT being served; a newer one replaces it
+let activeProjection: Run | null = null;
+
+const runProject = async (id: number, { embeddings, settings }: Extract<WorkerRequest, { type: 'PROJECT' }>['payload']) => {
+    if (activeProjection) activeProjection.cancelled = true;
+    const run = activeProjection = createRun(id);
+    try {
+        const coordinates = await run.stage('project', () => projectInWorker(embeddings, settings));
+        reply(id, { type: 'PROJECTED', payload: { coordinates, settings, timings: run.timings } });
+    } catch (e) {
+        fail(id, e);
+    } finally {
+        if (activeProjection === run) activeProjection = null;
     }
 };
 
+ctx.onmessage = (e: MessageEvent<RequestMessage>) => {
+    const message = e.data;
+    const id = typeof message?.id === 'number' ? message.id : -1;
+    if (message?.v !== PROTOCOL_VERSION) {
+        reply(id, { type: 'ERROR', payload: { code: 'BAD_REQUEST', message: `Unsupported protocol version ${message?.v}, expected ${PROTOCOL_VERSION}` } });
+        return;
+    }
+    if (message.type === 'INIT') {
+        initialize(id, message.payload.model, message.payload.device, message.payload.files);
+    } else if (message.type === 'SORT') {
+        runSort(id, message.payload);
+    } else if (message.type === 'INSERT') {
+        runInsert(id, message.payload);
+    } else if (message.type === 'PROJECT') {
+        runProject(id, message.payload);
+    } else if (message.type === 'COMPARE') {
+        runCompare(id, message.payload);
+    } else if (message.type === 'FIND_DUPLICATES') {
+        runFindDuplicates(id, message.payload);
+    } else if (message.type === 'CANCEL') {
+        if (activeRun && activeRun.id === message.payload.target) {
+            activeRun.cancelled = true;
+            abortSolve();
+        }
+    } else if (message.type === 'CLEAR_CACHE') {
+        const { modelName } = message.payload;
+        clearCachedEmbeddings(modelName)
+            .then(removed => reply(id, { type: 'CACHE_CLEARED', payload: { modelName, removed } }))
+            .catch(err => reply(id, { type: 'ERROR', payload: { code: 'CACHE_FAILED', message: errorMessage(err) } }));
+    } else {
+        reply(id, { type: 'ERROR', payload: { code: 'BAD_REQUEST', message: `Unknown message type ${(message as any).type}` } });
+    }
+};
@@ -0,0 +1,40 @@
+import { defineConfig } from 'vite'
+import { chmodSync, copyFileSync, mkdirSync } from 'node:fs'
+import { resolve } from 'node:path'
+
+// Node build of the CLI (src/cli.ts). Dependencies stay external and are loaded
+// from node_modules at runtime. SSR builds don't emit assets referenced through
+// `new URL(..., import.meta.url)`, so the vrp-cli wasm is copied to the same
+// relative path it has next to the source.
+export default defineConfig({
+  build: {
+    ssr: 'src/cli.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    emptyOutDir: true,
+    rollupOptions: {
+      // package.json points `bin` at the output, which the shell runs directly
+      output: { banner: '#!/usr/bin/env node' },
+    },
+  },
+  publicDir: false,
+  plugins: [
+    (() => {
+      let root = ''
+      let outDir = ''
+      return {
+        name: 'copy-vrp-wasm',
+        configResolved(config) {
+          root = config.root
+          outDir = resolve(config.root, config.build.outDir)
+        },
+        writeBundle() {
+          mkdirSync(resolve(outDir, 'vrp-pkg'), { recursive: true })
+          copyFileSync(resolve(root, 'src/vrp-pkg/vrp_cli_bg.wasm'), resolve(outDir, 'vrp-pkg/vrp_cli_bg.wasm'))
+          // Runnable as ./dist-cli/cli.js, not only once npm links it as a bin
+          chmodSync(resolve(outDir, 'cli.js'), 0o755)
+        },
+      }
+    })(),
+  ],
+})